@@ -0,0 +1,28 @@
+/**
+ * Copies the three.js decoder builds (Draco, Basis/KTX2) and the Draco encoder used by
+ * compressed export into public/decoders, so the viewer serves them itself instead of
+ * pulling them from a CDN.
+ */
+const fs = require('fs');
+const path = require('path');
+
+const modules = path.join(__dirname, '..', 'node_modules');
+const libs = path.join(modules, 'three', 'examples', 'jsm', 'libs');
+const out = path.join(__dirname, '..', 'public', 'decoders');
+
+const targets = [
+  { from: path.join(libs, 'draco/gltf'), to: 'draco', files: ['draco_decoder.js', 'draco_decoder.wasm', 'draco_wasm_wrapper.js'] },
+  { from: path.join(libs, 'basis'), to: 'basis', files: ['basis_transcoder.js', 'basis_transcoder.wasm'] },
+  // The draco3d build runs in browsers too; it is loaded as a classic script exposing DracoEncoderModule
+  { from: path.join(modules, 'draco3d'), to: 'draco_encoder', files: [['draco_encoder_nodejs.js', 'draco_encoder.js'], 'draco_encoder.wasm'] },
+];
+
+targets.forEach(({ from, to, files }) => {
+  fs.mkdirSync(path.join(out, to), { recursive: true });
+  files.forEach((file) => {
+    const [src, dest] = Array.isArray(file) ? file : [file, file];
+    fs.copyFileSync(path.join(from, src), path.join(out, to, dest));
+  });
+});
+
+console.log(`Decoders copied to ${path.relative(process.cwd(), out) || out}`);
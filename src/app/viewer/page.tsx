@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useRef, useMemo } from 'react';
+import { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import dynamic from 'next/dynamic';
 import type {
   MeshInfo,
@@ -14,25 +14,41 @@ import type {
   OptimizationState,
   SceneNode,
   AnimationClipInfo,
-  PlaybackConfig
+  PlaybackConfig,
+  ModelFileSet,
+  ReportSnapshot,
+  RuleSettingsMap,
+  BudgetProfile,
+  SceneSnapshot
 } from '@/types/model';
 import type { ColorOverride, ScaleOverride } from '@/components/SidePanel';
 import Dropzone from '@/components/Dropzone';
+import RemoteSourceStatus from '@/components/RemoteSourceStatus';
 import SidePanel from '@/components/SidePanel';
 import * as THREE from 'three';
 import { InstancingEngine } from '@/core/actions/InstancingEngine';
 import { MergeEngine } from '@/core/actions/MergeEngine';
 import { LODEngine } from '@/core/actions/LODEngine';
 import { SceneGraphBuilder } from '@/core/scene/SceneGraphBuilder';
+import { SceneAnalyzer } from '@/core/analysis/SceneAnalyzer';
+import { RecentModelsStore } from '@/core/storage/RecentModelsStore';
+import { RuleSettingsStore } from '@/core/storage/RuleSettingsStore';
+import { BudgetProfileStore } from '@/core/storage/BudgetProfileStore';
+import { BudgetProfiles } from '@/core/analysis/BudgetProfiles';
+import { RemoteModelFetcher } from '@/core/loading/RemoteModelFetcher';
+import { ModelLoadError } from '@/core/loading/ModelLoadError';
+import { AnalysisReportBuilder } from '@/core/report/AnalysisReportBuilder';
+import { HtmlReportRenderer } from '@/core/report/HtmlReportRenderer';
 
 // ModelViewer must be client-only (Three.js / canvas)
 const ModelViewer = dynamic(() => import('@/components/ModelViewer'), { ssr: false });
 
 export default function ViewerPage() {
-  const [file, setFile] = useState<File | null>(null);
+  const [fileSet, setFileSet] = useState<ModelFileSet | null>(null);
   const [meshes, setMeshes] = useState<MeshInfo[]>([]);
   const [stats, setStats] = useState<ModelStats | null>(null);
   const [selectedMeshUuid, setSelectedMeshUuid] = useState<string | null>(null);
+  const [exportNodeUuid, setExportNodeUuid] = useState<string | null>(null);
   const [colorOverrides, setColorOverrides] = useState<ColorOverride[]>([]);
   const [scaleOverrides, setScaleOverrides] = useState<ScaleOverride[]>([]);
   const [performanceStats, setPerformanceStats] = useState<PerformanceStats | null>(null);
@@ -43,6 +59,8 @@ export default function ViewerPage() {
   const [appliedIssueIds, setAppliedIssueIds] = useState<Set<string>>(new Set());
   const [dismissedIssueIds, setDismissedIssueIds] = useState<Set<string>>(new Set());
   const [optimizationHistory, setOptimizationHistory] = useState<OptimizationEvent[]>([]);
+  // Taken at load and after each applied optimization; the diff compares first and last
+  const [sceneSnapshots, setSceneSnapshots] = useState<SceneSnapshot[]>([]);
   const [notification, setNotification] = useState<{ message: string; sub: string } | null>(null);
   const [debugMode, setDebugMode] = useState<DebugRenderMode>('none');
   const [lightingConfig, setLightingConfig] = useState<LightingConfig>({
@@ -75,7 +93,86 @@ export default function ViewerPage() {
     loop: true,
     selectedIndex: 0,
   });
+  const [ruleSettings, setRuleSettings] = useState<RuleSettingsMap>({});
+  const [budgetProfileId, setBudgetProfileId] = useState<string>(BudgetProfiles.DEFAULT_ID);
+  const [customBudgetProfiles, setCustomBudgetProfiles] = useState<BudgetProfile[]>([]);
+  const budgetProfile = useMemo(
+    () => BudgetProfiles.find(budgetProfileId, customBudgetProfiles),
+    [budgetProfileId, customBudgetProfiles],
+  );
   const sceneRef = useRef<THREE.Object3D | null>(null);
+  // Resolves to the recent-models entry of the open file once it has been stored
+  const recentEntryRef = useRef<Promise<string> | null>(null);
+
+  const updateRecentEntry = useCallback((patch: Parameters<typeof RecentModelsStore.update>[1]) => {
+    recentEntryRef.current
+      ?.then(id => RecentModelsStore.update(id, patch))
+      .catch(err => console.warn('Could not update recent model', err));
+  }, []);
+
+  const handleFilesSelected = useCallback((fs: ModelFileSet) => {
+    setFileSet(fs);
+    recentEntryRef.current = RecentModelsStore.save(fs);
+    recentEntryRef.current.catch(err => console.warn('Could not store recent model', err));
+  }, []);
+
+  // Stored settings are read after mount; localStorage doesn't exist during prerendering
+  useEffect(() => {
+    setRuleSettings(RuleSettingsStore.load());
+    setCustomBudgetProfiles(BudgetProfileStore.loadCustom());
+    setBudgetProfileId(BudgetProfileStore.loadActiveId() ?? BudgetProfiles.DEFAULT_ID);
+  }, []);
+
+  const handleRuleSettingsChange = useCallback((settings: RuleSettingsMap) => {
+    setRuleSettings(settings);
+    RuleSettingsStore.save(settings);
+  }, []);
+
+  const handleBudgetProfileSelect = useCallback((id: string) => {
+    setBudgetProfileId(id);
+    BudgetProfileStore.saveActiveId(id);
+  }, []);
+
+  const handleCustomBudgetProfilesChange = useCallback((profiles: BudgetProfile[]) => {
+    setCustomBudgetProfiles(profiles);
+    BudgetProfileStore.saveCustom(profiles);
+  }, []);
+
+  // /viewer?src=<url> opens a model straight from a link
+  const [remote, setRemote] = useState<{ url: string; progress: number; error: ModelLoadError | null } | null>(null);
+  const remoteAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const src = new URLSearchParams(window.location.search).get('src');
+    if (!src) return;
+
+    const abort = new AbortController();
+    remoteAbortRef.current = abort;
+    setRemote({ url: src, progress: 0, error: null });
+
+    RemoteModelFetcher.fetch(src, {
+      signal: abort.signal,
+      onProgress: (progress) => setRemote(r => r && { ...r, progress }),
+    })
+      .then((fs) => {
+        setRemote(null);
+        handleFilesSelected(fs);
+      })
+      .catch((err) => {
+        if (ModelLoadError.isAbort(err)) return;
+        console.error('Remote model error', err);
+        setRemote(r => r && { ...r, error: ModelLoadError.from(err) });
+      });
+
+    return () => abort.abort();
+  }, [handleFilesSelected]);
+
+  // Leaves the link-opened model behind so a reload shows the dropzone
+  const clearRemoteSource = useCallback(() => {
+    remoteAbortRef.current?.abort();
+    setRemote(null);
+    if (window.location.search) window.history.replaceState(null, '', window.location.pathname);
+  }, []);
 
   const sceneTree = useMemo(() => {
     if (!sceneRef.current) return null;
@@ -86,14 +183,16 @@ export default function ViewerPage() {
     (m: MeshInfo[], s: ModelStats, scene: THREE.Object3D) => {
       setMeshes(m);
       setStats(s);
+      updateRecentEntry({ stats: s });
       setSelectedMeshUuid(null);
       setColorOverrides([]);
       setScaleOverrides([]);
       setClips([]);
       setPlaybackConfig(prev => ({ ...prev, playing: false, currentTime: 0, duration: 0, selectedIndex: 0 }));
       sceneRef.current = scene;
+      setSceneSnapshots([SceneAnalyzer.snapshot(scene, 'As loaded')]);
     },
-    [],
+    [updateRecentEntry],
   );
 
   const handleAnimationsLoaded = useCallback((c: AnimationClipInfo[]) => {
@@ -168,7 +267,9 @@ export default function ViewerPage() {
     if (action === 'convert_to_instanced') {
       const res = InstancingEngine.convertToInstanced(
         sceneRef.current,
-        issue.affectedUuids || []
+        issue.affectedUuids || [],
+        issue.optimizationMetadata?.geometryUuid,
+        issue.optimizationMetadata?.geometryOffsets
       );
       result = !!res;
     } else if (action === 'merge_static') {
@@ -205,6 +306,8 @@ export default function ViewerPage() {
         impact: issue.severity
       };
       setOptimizationHistory(prev => [newEvent, ...prev]);
+      const snapshot = SceneAnalyzer.snapshot(sceneRef.current, issue.title);
+      setSceneSnapshots(prev => [...prev, snapshot]);
 
       // Trigger notification
       setNotification({
@@ -250,11 +353,52 @@ export default function ViewerPage() {
     setSceneVersion(v => v + 1);
   }, []);
 
+  const sceneDiff = useMemo(
+    () => sceneSnapshots.length > 1 ? SceneAnalyzer.diff(sceneSnapshots[0], sceneSnapshots[sceneSnapshots.length - 1]) : null,
+    [sceneSnapshots],
+  );
+
+  // Set by ModelViewer while a model is on screen
+  const reportCaptureRef = useRef<(() => ReportSnapshot) | null>(null);
+  const handleReportCaptureReady = useCallback((capture: (() => ReportSnapshot) | null) => {
+    reportCaptureRef.current = capture;
+  }, []);
+
+  const handleDownloadReport = useCallback((format: 'json' | 'html') => {
+    const report = AnalysisReportBuilder.build({
+      scene: sceneRef.current,
+      stats,
+      performance: performanceStats,
+      analysis: sceneAnalysis,
+      history: optimizationHistory,
+      diff: sceneDiff,
+    });
+    let blob: Blob;
+    if (format === 'html') {
+      const capture = reportCaptureRef.current;
+      if (!capture) return;
+      blob = HtmlReportRenderer.toBlob(HtmlReportRenderer.render(report, capture()));
+    } else {
+      blob = AnalysisReportBuilder.toBlob(report);
+    }
+
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${(stats?.fileName ?? 'model').replace(/\.[^.]+$/, '')}_report.${format}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }, [stats, performanceStats, sceneAnalysis, optimizationHistory, sceneDiff]);
+
   const handleLoadNew = useCallback(() => {
-    setFile(null);
+    setFileSet(null);
+    clearRemoteSource();
+    recentEntryRef.current = null;
     setMeshes([]);
     setStats(null);
     setSelectedMeshUuid(null);
+    setExportNodeUuid(null);
+    setSceneSnapshots([]);
     setColorOverrides([]);
     setScaleOverrides([]);
     setPerformanceStats(null);
@@ -282,7 +426,7 @@ export default function ViewerPage() {
         colorGrading: { brightness: 0, contrast: 0, saturation: 0 },
       },
     });
-  }, []);
+  }, [clearRemoteSource]);
 
   return (
     <main
@@ -382,6 +526,26 @@ export default function ViewerPage() {
               </span>
             </div>
           )}
+          {stats && (
+            <div style={{ display: 'flex', gap: 6 }}>
+              {([
+                ['html', '⬇ HTML report', 'Offline report with screenshots, for sharing'],
+                ['json', '⬇ JSON', 'Machine-readable analysis for asset pipelines'],
+              ] as const).map(([format, label, title]) => (
+                <button
+                  key={format}
+                  onClick={() => handleDownloadReport(format)}
+                  title={title}
+                  style={{
+                    fontSize: '0.7rem', fontWeight: 600, color: 'var(--text-primary)', cursor: 'pointer',
+                    background: 'var(--bg-card)', border: '1px solid var(--border)', borderRadius: 6, padding: '4px 10px',
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       </header>
 
@@ -389,11 +553,18 @@ export default function ViewerPage() {
       <div style={{ flex: 1, display: 'flex', overflow: 'hidden' }}>
         {/* Canvas area */}
         <div style={{ flex: 1, position: 'relative' }}>
-          {!file ? (
-            <Dropzone onFileSelected={setFile} />
+          {!fileSet && remote ? (
+            <RemoteSourceStatus
+              url={remote.url}
+              progress={remote.progress}
+              error={remote.error}
+              onCancel={clearRemoteSource}
+            />
+          ) : !fileSet ? (
+            <Dropzone onFilesSelected={handleFilesSelected} />
           ) : (
             <ModelViewer
-              file={file}
+              fileSet={fileSet}
               onModelLoaded={handleModelLoaded}
               selectedMeshUuid={selectedMeshUuid}
               onSelectMesh={setSelectedMeshUuid}
@@ -407,6 +578,7 @@ export default function ViewerPage() {
                       dismissedIssueIds.has(issue.id) ? 'dismissed' : 'idle') as OptimizationState
                   })) as StructuralIssue[];
                   setSceneAnalysis({ ...report, issues: updatedIssues, sceneVersion });
+                  updateRecentEntry({ score: report.score });
                 }}
                 lightingConfig={lightingConfig}
                 onLightingConfigUpdate={setLightingConfig}
@@ -417,6 +589,12 @@ export default function ViewerPage() {
                 playbackConfig={playbackConfig}
                 onPlaybackUpdate={handlePlaybackUpdate}
                 onAnimationsLoaded={handleAnimationsLoaded}
+                onThumbnail={(thumbnail) => updateRecentEntry({ thumbnail })}
+                exportNodeUuid={exportNodeUuid}
+                onExportNodeClose={() => setExportNodeUuid(null)}
+                onReportCaptureReady={handleReportCaptureReady}
+                ruleSettings={ruleSettings}
+                budgetProfile={budgetProfile}
               />
           )}
 
@@ -461,6 +639,7 @@ export default function ViewerPage() {
           onOptimize={handleOptimize}
           onDismiss={handleDismiss}
           optimizationHistory={optimizationHistory}
+          sceneDiff={sceneDiff}
           debugMode={debugMode}
           onDebugModeChange={setDebugMode}
           scene={sceneRef.current}
@@ -468,6 +647,13 @@ export default function ViewerPage() {
           onToggleVisibility={handleToggleVisibility}
           onFocus={handleFocus}
           onIsolate={handleIsolate}
+          onExportNode={setExportNodeUuid}
+          ruleSettings={ruleSettings}
+          onRuleSettingsChange={handleRuleSettingsChange}
+          budgetProfile={budgetProfile}
+          customBudgetProfiles={customBudgetProfiles}
+          onBudgetProfileSelect={handleBudgetProfileSelect}
+          onCustomBudgetProfilesChange={handleCustomBudgetProfilesChange}
         />
       </div>
     </main>
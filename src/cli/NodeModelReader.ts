@@ -0,0 +1,277 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js';
+import { createDecoderModule, type DecoderModule } from 'draco3d';
+import type { ModelFileSet } from '@/types/model';
+import type { LoadedModel } from '@/core/loading/ModelLoader';
+import { CompressionDecoders } from '@/core/loading/CompressionDecoders';
+import { FileSetResolver } from '@/core/loading/FileSetResolver';
+import { ModelLoadError } from '@/core/loading/ModelLoadError';
+
+/**
+ * Reads width and height from a PNG, JPEG or WebP header.
+ */
+function readImageSize(buffer: ArrayBuffer): { width: number; height: number } | null {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const ascii = (offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+  if (bytes.length >= 24 && bytes[0] === 0x89 && ascii(1, 3) === 'PNG') {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+      // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC) which share the range
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+    return null;
+  }
+
+  if (bytes.length >= 30 && ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') {
+    const chunk = ascii(12, 4);
+    if (chunk === 'VP8 ') {
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      const uint24 = (offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+      return { width: uint24(24) + 1, height: uint24(27) + 1 };
+    }
+  }
+  return null;
+}
+
+/**
+ * FileLoader streams responses to report progress with ProgressEvent, which Node doesn't
+ * have; read each response whole instead. Always yields an ArrayBuffer.
+ */
+class NodeFileLoader extends THREE.FileLoader {
+  load(
+    url: string,
+    onLoad?: (data: string | ArrayBuffer) => void,
+    onProgress?: (event: ProgressEvent) => void,
+    onError?: (err: unknown) => void,
+  ): void {
+    const resolved = this.manager.resolveURL(this.path + url);
+    this.manager.itemStart(resolved);
+    fetch(resolved)
+      .then((response) => {
+        if (!response.ok) throw new Error(`fetch for "${response.url}" responded with ${response.status}`);
+        return response.arrayBuffer();
+      })
+      .then(
+        (buffer) => onLoad?.(buffer),
+        (err) => {
+          onError?.(err);
+          this.manager.itemError(resolved);
+        },
+      )
+      .finally(() => this.manager.itemEnd(resolved));
+  }
+}
+
+/**
+ * Stands in for GLTFLoader's image loader: Node has no image decoding, and the analysis only
+ * reads texture dimensions, so textures get a `{ width, height }` image without pixel data.
+ */
+class ImageSizeLoader extends THREE.TextureLoader {
+  load(
+    url: string,
+    onLoad?: (texture: THREE.Texture) => void,
+    onProgress?: (event: ProgressEvent) => void,
+    onError?: (err: unknown) => void,
+  ): THREE.Texture {
+    const texture = new THREE.Texture();
+    new NodeFileLoader(this.manager).load(
+      url,
+      (buffer) => {
+        const size = readImageSize(buffer as ArrayBuffer);
+        if (!size) {
+          onError?.(new Error(`Unsupported image format: ${url}`));
+          return;
+        }
+        texture.image = size;
+        onLoad?.(texture);
+      },
+      onProgress,
+      onError,
+    );
+    return texture;
+  }
+}
+
+// Typed array GLTFLoader asks for per attribute, and the matching Draco data type
+const ATTRIBUTE_TYPES = {
+  Float32Array: { ArrayType: Float32Array, dataType: 'DT_FLOAT32' },
+  Int8Array: { ArrayType: Int8Array, dataType: 'DT_INT8' },
+  Int16Array: { ArrayType: Int16Array, dataType: 'DT_INT16' },
+  Int32Array: { ArrayType: Int32Array, dataType: 'DT_INT32' },
+  Uint8Array: { ArrayType: Uint8Array, dataType: 'DT_UINT8' },
+  Uint16Array: { ArrayType: Uint16Array, dataType: 'DT_UINT16' },
+  Uint32Array: { ArrayType: Uint32Array, dataType: 'DT_UINT32' },
+} as const;
+
+interface DracoTaskConfig {
+  // glTF primitives name their attributes by unique id
+  attributeIDs: Record<string, number>;
+  attributeTypes: Record<string, keyof typeof ATTRIBUTE_TYPES>;
+}
+
+/**
+ * DRACOLoader decodes in Web Workers, which Node doesn't have; decode with draco3d's Node build
+ * in-process instead. Only covers what GLTFLoader asks for (meshes, attributes by unique id).
+ */
+class NodeDracoLoader extends DRACOLoader {
+  private static decoder: Promise<DecoderModule> | null = null;
+
+  preload(): this {
+    return this;
+  }
+
+  async decodeGeometry(buffer: ArrayBuffer, taskConfig: DracoTaskConfig): Promise<THREE.BufferGeometry> {
+    NodeDracoLoader.decoder ??= createDecoderModule();
+    const draco = await NodeDracoLoader.decoder;
+    const decoder = new draco.Decoder();
+    const dracoBuffer = new draco.DecoderBuffer();
+    const mesh = new draco.Mesh();
+
+    try {
+      const array = new Int8Array(buffer);
+      dracoBuffer.Init(array, array.byteLength);
+      if (decoder.GetEncodedGeometryType(dracoBuffer) !== draco.TRIANGULAR_MESH) {
+        throw new Error('Draco point clouds are not supported.');
+      }
+      const status = decoder.DecodeBufferToMesh(dracoBuffer, mesh);
+      if (!status.ok() || mesh.ptr === 0) throw new Error(`Draco decoding failed: ${status.error_msg()}`);
+
+      const geometry = new THREE.BufferGeometry();
+      // Copies `length` values the decoder writes into its heap out into a typed array
+      const read = (
+        ArrayType: (typeof ATTRIBUTE_TYPES)[keyof typeof ATTRIBUTE_TYPES]['ArrayType'],
+        length: number,
+        fill: (byteLength: number, ptr: number) => void,
+      ) => {
+        const byteLength = length * ArrayType.BYTES_PER_ELEMENT;
+        const ptr = draco._malloc(byteLength);
+        fill(byteLength, ptr);
+        const result = new ArrayType(draco.HEAP8.buffer as ArrayBuffer, ptr, length).slice();
+        draco._free(ptr);
+        return result;
+      };
+
+      const index = read(Uint32Array, mesh.num_faces() * 3, (byteLength, ptr) => decoder.GetTrianglesUInt32Array(mesh, byteLength, ptr));
+      geometry.setIndex(new THREE.BufferAttribute(index, 1));
+
+      for (const [name, id] of Object.entries(taskConfig.attributeIDs)) {
+        const attribute = decoder.GetAttributeByUniqueId(mesh, id);
+        const { ArrayType, dataType } = ATTRIBUTE_TYPES[taskConfig.attributeTypes[name]];
+        const itemSize = attribute.num_components();
+        const values = read(ArrayType, mesh.num_points() * itemSize, (byteLength, ptr) =>
+          decoder.GetAttributeDataArrayForAllPoints(mesh, attribute, draco[dataType], byteLength, ptr));
+        geometry.setAttribute(name, new THREE.BufferAttribute(values, itemSize, name === 'color' && !(values instanceof Float32Array)));
+      }
+      return geometry;
+    } finally {
+      draco.destroy(mesh);
+      draco.destroy(dracoBuffer);
+      draco.destroy(decoder);
+    }
+  }
+}
+
+/**
+ * NodeModelReader
+ * Loads GLB/glTF from disk in Node, for the command-line analyzer. There is no DOM or WebGL:
+ * images are sized but not decoded, and KTX2 (which needs a browser worker and WebGL) is not supported.
+ */
+export class NodeModelReader {
+  static readonly FORMATS = ['glb', 'gltf'];
+
+  /**
+   * Reads a model and, for .gltf, the buffers and images it references next to it.
+   */
+  static async readFileSet(filePath: string): Promise<ModelFileSet> {
+    const ext = path.extname(filePath).slice(1).toLowerCase();
+    if (!this.FORMATS.includes(ext)) {
+      throw new ModelLoadError('unsupported_format', `.${ext} files can't be analyzed from the command line; use .glb or .gltf.`);
+    }
+
+    const primaryPath = path.basename(filePath);
+    const primary = new File([new Uint8Array(await this.readOrThrow(filePath))], primaryPath);
+    const files = new Map<string, File>([[primaryPath, primary]]);
+
+    if (ext === 'gltf') {
+      let json: { buffers?: { uri?: string }[]; images?: { uri?: string }[] };
+      try {
+        json = JSON.parse(await primary.text());
+      } catch (err) {
+        throw ModelLoadError.from(err);
+      }
+      const uris = [...(json.buffers ?? []), ...(json.images ?? [])]
+        .map(entry => entry.uri)
+        .filter((uri): uri is string => !!uri && !/^(data|blob|https?):/.test(uri));
+
+      // Missing files are left out; the resolver reports them once the loader asks for them
+      for (const uri of new Set(uris)) {
+        const relative = FileSetResolver.normalize(decodeURIComponent(uri));
+        const data = await readFile(path.join(path.dirname(filePath), relative)).catch(() => null);
+        if (data) files.set(relative, new File([new Uint8Array(data)], path.basename(relative)));
+      }
+    }
+
+    return { primary, primaryPath, files };
+  }
+
+  static async load(fileSet: ModelFileSet): Promise<LoadedModel> {
+    const resolver = new FileSetResolver(fileSet);
+    try {
+      const loader = new GLTFLoader(resolver.manager)
+        .setDRACOLoader(new NodeDracoLoader(resolver.manager))
+        .setMeshoptDecoder(MeshoptDecoder);
+      loader.register((parser) => {
+        parser.fileLoader = new NodeFileLoader(resolver.manager);
+        parser.textureLoader = new ImageSizeLoader(resolver.manager);
+        return { name: 'node_loaders' };
+      });
+
+      const gltf = await loader.parseAsync(await fileSet.primary.arrayBuffer(), resolver.basePath);
+      return {
+        root: gltf.scene,
+        animations: gltf.animations || [],
+        extraStats: { compression: CompressionDecoders.getUsedExtensions(gltf.parser.json) },
+      };
+    } catch (err) {
+      if (resolver.missing.size > 0) {
+        const missing = Array.from(resolver.missing).join(', ');
+        throw new ModelLoadError('missing_resource', `Not found next to ${fileSet.primaryPath}: ${missing}`);
+      }
+      throw ModelLoadError.from(err);
+    } finally {
+      resolver.dispose();
+    }
+  }
+
+  private static async readOrThrow(filePath: string): Promise<Buffer> {
+    try {
+      return await readFile(filePath);
+    } catch {
+      throw new ModelLoadError('not_found', `${filePath} does not exist or can't be read.`);
+    }
+  }
+}
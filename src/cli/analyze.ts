@@ -0,0 +1,216 @@
+import { readFile } from 'fs/promises';
+import { extractMeshes, computeModelStats } from '@/utils/modelExtractor';
+import { SceneAnalyzer } from '@/core/analysis/SceneAnalyzer';
+import { OptimizationEngine } from '@/core/analysis/OptimizationEngine';
+import { ProjectConfigFile } from '@/core/analysis/ProjectConfigFile';
+import { BudgetProfiles } from '@/core/analysis/BudgetProfiles';
+import {
+  AnalysisGate,
+  ISSUE_SEVERITIES,
+  type AnalysisThresholds,
+  type IssueSeverity,
+  type ThresholdViolation,
+} from '@/core/analysis/AnalysisGate';
+import { AnalysisReportBuilder } from '@/core/report/AnalysisReportBuilder';
+import { ModelLoadError } from '@/core/loading/ModelLoadError';
+import type { AnalysisReportDocument, BudgetProfile, RuleSettingsMap } from '@/types/model';
+import { NodeModelReader } from './NodeModelReader';
+
+const USAGE = `Usage: npm run analyze -- <model.glb|model.gltf>... [options]
+
+Runs the viewer's scene analysis on each model and prints the report.
+
+Options:
+  --config <file>       Rule settings exported from the viewer (thenext3d.config.json)
+  --profile <id>        Budget profile to score against (default: ${BudgetProfiles.DEFAULT_ID}):
+                        ${BudgetProfiles.BUILTIN.map(profile => profile.id).join(', ')}
+  --format <text|json>  Output format (default: text). JSON is the viewer's report
+                        document, or an array of them for several models.
+  --min-score <n>       Fail when the score is below n
+  --max-high <n>        Fail when there are more than n high-severity issues
+  --max-medium <n>      Fail when there are more than n medium-severity issues
+  --max-low <n>         Fail when there are more than n low-severity issues
+  -h, --help            Show this help
+
+Exit codes: 0 passed, 1 a threshold was crossed, 2 bad arguments or a model could not be loaded.`;
+
+const EXIT_FAILED_THRESHOLD = 1;
+const EXIT_ERROR = 2;
+
+// Paths listed per issue in text output before the rest collapses into "+N more"
+const NODE_PREVIEW_LIMIT = 3;
+
+interface CliOptions {
+  files: string[];
+  format: 'text' | 'json';
+  thresholds: AnalysisThresholds;
+  configPath?: string;
+  profile: BudgetProfile;
+}
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): CliOptions | null {
+  const options: CliOptions = { files: [], format: 'text', thresholds: { maxIssues: {} }, profile: BudgetProfiles.default };
+  const number = (flag: string, value: string | undefined) => {
+    const n = Number(value);
+    if (value === undefined || value === '' || !Number.isFinite(n) || n < 0) {
+      throw new UsageError(`${flag} expects a non-negative number`);
+    }
+    return n;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '-h' || arg === '--help') return null;
+    if (arg === '--format') {
+      const format = args[++i];
+      if (format !== 'text' && format !== 'json') throw new UsageError('--format expects "text" or "json"');
+      options.format = format;
+    } else if (arg === '--config') {
+      const configPath = args[++i];
+      if (!configPath) throw new UsageError('--config expects a file path');
+      options.configPath = configPath;
+    } else if (arg === '--profile') {
+      const id = args[++i];
+      const profile = BudgetProfiles.BUILTIN.find(p => p.id === id);
+      if (!profile) throw new UsageError(`--profile expects one of ${BudgetProfiles.BUILTIN.map(p => p.id).join(', ')}`);
+      options.profile = profile;
+    } else if (arg === '--min-score') {
+      options.thresholds.minScore = number(arg, args[++i]);
+    } else if (arg.startsWith('--max-') && ISSUE_SEVERITIES.includes(arg.slice('--max-'.length) as IssueSeverity)) {
+      options.thresholds.maxIssues[arg.slice('--max-'.length) as IssueSeverity] = number(arg, args[++i]);
+    } else if (arg.startsWith('-')) {
+      throw new UsageError(`Unknown option ${arg}`);
+    } else {
+      options.files.push(arg);
+    }
+  }
+
+  if (options.files.length === 0) throw new UsageError('No model files given');
+  return options;
+}
+
+async function loadRuleSettings(configPath: string): Promise<RuleSettingsMap> {
+  const text = await readFile(configPath, 'utf8').catch(() => {
+    throw new UsageError(`${configPath} does not exist or can't be read`);
+  });
+  try {
+    const { config, warnings } = ProjectConfigFile.parse(text);
+    warnings.forEach(warning => console.error(`${configPath}: ${warning}`));
+    return config.rules ?? {};
+  } catch (err) {
+    throw new UsageError(`${configPath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+async function analyzeFile(
+  filePath: string,
+  ruleSettings: RuleSettingsMap,
+  profile: BudgetProfile,
+): Promise<AnalysisReportDocument> {
+  const fileSet = await NodeModelReader.readFileSet(filePath);
+  const { root, animations, extraStats } = await NodeModelReader.load(fileSet);
+
+  const meshes = extractMeshes(root);
+  const stats = {
+    ...computeModelStats(root, meshes, animations, fileSet.primary.name, fileSet.primary.size),
+    ...extraStats,
+  };
+  const analysis = OptimizationEngine.evaluate(SceneAnalyzer.analyze(root), ruleSettings, profile);
+  return AnalysisReportBuilder.build({ scene: root, stats, performance: null, analysis, history: [] });
+}
+
+function formatText(filePath: string, report: AnalysisReportDocument, violations: ThresholdViolation[]): string {
+  const { stats, analysis } = report;
+  const lines = [`${filePath}${stats?.fileSize ? `  (${stats.fileSize})` : ''}`];
+
+  if (analysis) {
+    lines.push(`  Score ${analysis.score}/100 · ${analysis.status} · ${analysis.profile.name} budget`);
+    analysis.budgets
+      .filter(check => check.exceeded)
+      .forEach(check => lines.push(
+        `  Over budget: ${check.label} ${check.actual.toLocaleString()} / ${check.limit.toLocaleString()} ${check.unit} `
+        + `(+${Math.round(check.overBy * 100)}%)`,
+      ));
+    analysis.breakdown.forEach(item => lines.push(
+      `    -${item.weight}  ${item.title}: ${item.measured.toLocaleString()} ${item.unit}, threshold ${item.threshold.toLocaleString()}`,
+    ));
+  }
+  if (stats) {
+    lines.push(
+      `  ${stats.totalMeshes.toLocaleString()} meshes · ${stats.totalTriangles.toLocaleString()} triangles · `
+      + `${stats.totalVertices.toLocaleString()} vertices · ${stats.uniqueMaterials} materials · ${stats.animationCount} animations`,
+    );
+    if (stats.compression?.length) lines.push(`  Compression: ${stats.compression.join(', ')}`);
+  }
+
+  const issues = analysis?.issues ?? [];
+  lines.push('', issues.length > 0 ? `  Issues (${issues.length})` : '  No issues found');
+  issues.forEach((issue) => {
+    lines.push(`  [${issue.severity}] ${issue.title}`, `      ${issue.description}`);
+    const paths = issue.affectedNodes.map(node => node.path ?? node.uuid);
+    if (paths.length > 0) {
+      const more = paths.length > NODE_PREVIEW_LIMIT ? ` +${paths.length - NODE_PREVIEW_LIMIT} more` : '';
+      lines.push(`      ${paths.slice(0, NODE_PREVIEW_LIMIT).join(', ')}${more}`);
+    }
+  });
+
+  lines.push('', violations.length > 0 ? '  FAILED' : '  PASSED');
+  violations.forEach(v => lines.push(`    ✗ ${v.message}`));
+  return lines.join('\n');
+}
+
+async function main(argv: string[]): Promise<number> {
+  let options: CliOptions | null;
+  let ruleSettings: RuleSettingsMap = {};
+  try {
+    options = parseArgs(argv);
+    if (options?.configPath) ruleSettings = await loadRuleSettings(options.configPath);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    console.error(`${err.message}\n\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  // GLTFLoader reaches URL.createObjectURL through `self`, which Node 20 doesn't define
+  (globalThis as { self?: typeof globalThis }).self ??= globalThis;
+
+  let exitCode = 0;
+  const reports: AnalysisReportDocument[] = [];
+  for (const filePath of options.files) {
+    try {
+      const report = await analyzeFile(filePath, ruleSettings, options.profile);
+      const violations = report.analysis ? AnalysisGate.check(report.analysis, options.thresholds) : [];
+      if (violations.length > 0) exitCode = Math.max(exitCode, EXIT_FAILED_THRESHOLD);
+
+      if (options.format === 'json') {
+        reports.push(report);
+        violations.forEach(v => console.error(`${filePath}: ${v.message}`));
+      } else {
+        console.log(`${formatText(filePath, report, violations)}\n`);
+      }
+    } catch (err) {
+      const error = ModelLoadError.from(err);
+      console.error(`${filePath}: ${error.title}. ${error.message}`);
+      exitCode = EXIT_ERROR;
+    }
+  }
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify(reports.length === 1 && options.files.length === 1 ? reports[0] : reports, null, 2));
+  }
+  return exitCode;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => { process.exitCode = code; },
+  (err) => {
+    console.error(err);
+    process.exitCode = EXIT_ERROR;
+  },
+);
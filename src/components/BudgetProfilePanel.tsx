@@ -0,0 +1,145 @@
+'use client';
+
+import React from 'react';
+import type { BudgetCheck, BudgetKey, BudgetProfile } from '@/types/model';
+import { BudgetProfiles, BUDGET_LABELS } from '@/core/analysis/BudgetProfiles';
+
+interface BudgetProfilePanelProps {
+  profile: BudgetProfile;
+  customProfiles: BudgetProfile[];
+  // Budgets of the current analysis, measured against `profile`
+  budgets: BudgetCheck[];
+  onSelect: (id: string) => void;
+  onCustomProfilesChange: (profiles: BudgetProfile[]) => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  background: 'var(--bg-card)', border: '1px solid var(--border)', borderRadius: 6,
+  padding: '4px 6px', color: 'var(--text-primary)', fontSize: '0.7rem', outline: 'none',
+};
+
+const buttonStyle: React.CSSProperties = {
+  flex: 1, padding: '6px 0', borderRadius: 6, border: '1px solid var(--border)', background: 'transparent',
+  color: 'var(--text-secondary)', fontSize: '0.68rem', fontWeight: 600, cursor: 'pointer',
+};
+
+// ──────────────────────────────────────────────
+// Budget row
+// ──────────────────────────────────────────────
+function BudgetRow({ check }: { check: BudgetCheck }) {
+  const fill = check.limit > 0 ? Math.min(1, check.actual / check.limit) : 1;
+  const color = check.exceeded ? 'var(--error)' : fill > 0.8 ? 'var(--warning)' : 'var(--success)';
+
+  return (
+    <div style={{ padding: '4px 0' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', fontSize: '0.7rem' }}>
+        <span style={{ color: 'var(--text-secondary)' }}>{check.label}</span>
+        <span className="font-mono" style={{ fontSize: '0.68rem' }}>
+          <span style={{ color: 'var(--text-primary)', fontWeight: 700 }}>{check.actual.toLocaleString()}</span>
+          <span style={{ color: 'var(--text-secondary)' }}> / {check.limit.toLocaleString()} {check.unit}</span>
+          {check.exceeded && (
+            <span style={{ color, fontWeight: 700, marginLeft: 6 }}>+{Math.round(check.overBy * 100)}%</span>
+          )}
+        </span>
+      </div>
+      <div style={{ height: 3, background: 'var(--border)', borderRadius: 2, overflow: 'hidden', marginTop: 3 }}>
+        <div style={{ width: `${fill * 100}%`, height: '100%', background: color }} />
+      </div>
+    </div>
+  );
+}
+
+// ──────────────────────────────────────────────
+// Budget profile panel
+// ──────────────────────────────────────────────
+export function BudgetProfilePanel({ profile, customProfiles, budgets, onSelect, onCustomProfilesChange }: BudgetProfilePanelProps) {
+  const updateProfile = (patch: Partial<BudgetProfile>) => {
+    onCustomProfilesChange(customProfiles.map(p => (p.id === profile.id ? { ...p, ...patch } : p)));
+  };
+
+  const handleCustomize = () => {
+    const copy: BudgetProfile = {
+      ...profile,
+      id: `custom-${Date.now().toString(36)}`,
+      name: `${profile.name} (custom)`,
+      builtin: false,
+      limits: { ...profile.limits },
+    };
+    onCustomProfilesChange([...customProfiles, copy]);
+    onSelect(copy.id);
+  };
+
+  const handleDelete = () => {
+    onCustomProfilesChange(customProfiles.filter(p => p.id !== profile.id));
+    onSelect(BudgetProfiles.DEFAULT_ID);
+  };
+
+  return (
+    <div style={{ padding: '10px 10px 0' }}>
+      <div style={{ fontSize: '0.65rem', fontWeight: 800, color: 'var(--text-secondary)', textTransform: 'uppercase', marginBottom: 6, letterSpacing: '0.05em' }}>
+        Target Budget
+      </div>
+      <select
+        value={profile.id}
+        onChange={(e) => onSelect(e.target.value)}
+        style={{ ...inputStyle, width: '100%', padding: '6px', cursor: 'pointer' }}
+      >
+        {BudgetProfiles.BUILTIN.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        {customProfiles.length > 0 && (
+          <optgroup label="Custom">
+            {customProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </optgroup>
+        )}
+      </select>
+      {profile.description && (
+        <div style={{ fontSize: '0.62rem', color: 'var(--text-secondary)', marginTop: 4, lineHeight: 1.4 }}>{profile.description}</div>
+      )}
+
+      {budgets.length > 0 && (
+        <div style={{ marginTop: 8 }}>
+          {budgets.map(check => <BudgetRow key={check.key} check={check} />)}
+        </div>
+      )}
+
+      {!profile.builtin && (
+        <div style={{ marginTop: 8, display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <label className="prop-row" style={{ alignItems: 'center' }}>
+            <span className="prop-key">Name</span>
+            <input
+              value={profile.name}
+              onChange={(e) => updateProfile({ name: e.target.value })}
+              style={{ ...inputStyle, width: 150 }}
+            />
+          </label>
+          {(Object.keys(BUDGET_LABELS) as BudgetKey[]).map(key => (
+            <label key={key} className="prop-row" style={{ alignItems: 'center' }}>
+              <span className="prop-key">{BUDGET_LABELS[key]}</span>
+              <input
+                type="number"
+                min={0}
+                value={profile.limits[key]}
+                onChange={(e) => {
+                  const value = e.target.valueAsNumber;
+                  if (!Number.isFinite(value) || value < 0) return;
+                  updateProfile({ limits: { ...profile.limits, [key]: value } });
+                }}
+                style={{ ...inputStyle, width: 90, textAlign: 'right' }}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: 6, marginTop: 8 }}>
+        <button style={buttonStyle} onClick={handleCustomize} title="Create an editable copy of this profile">
+          {profile.builtin ? 'Customize' : 'Duplicate'}
+        </button>
+        {!profile.builtin && (
+          <button style={{ ...buttonStyle, color: 'var(--error)' }} onClick={handleDelete}>
+            Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,36 +1,216 @@
 'use client';
 
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import type { ModelFileSet, RecentModel } from '@/types/model';
+import { ArchiveExtractor } from '@/core/loading/ArchiveExtractor';
+import { RecentModelsStore } from '@/core/storage/RecentModelsStore';
 
 interface DropzoneProps {
-  onFileSelected: (file: File) => void;
+  onFilesSelected: (fileSet: ModelFileSet) => void;
 }
 
-const ACCEPTED = ['.glb', '.gltf', '.obj', '.fbx'];
+// Model formats in the order they win when a drop contains several
+const MODEL_FORMATS = ['.glb', '.gltf', '.obj', '.fbx', '.stl', '.ply', '.3mf', '.dae'];
+const ACCEPTED = [...MODEL_FORMATS, '.zip'];
 
-export default function Dropzone({ onFileSelected }: DropzoneProps) {
+interface ArchiveContents {
+  name: string;
+  files: Map<string, File>;
+  candidates: string[];
+  selected: string;
+}
+
+// Relative paths of dropped files, including everything inside dropped folders
+async function collectEntries(entry: FileSystemEntry, out: Map<string, File>): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject),
+    );
+    out.set(entry.fullPath.replace(/^\//, ''), file);
+    return;
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns results in batches until it yields an empty array
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      await Promise.all(batch.map(child => collectEntries(child, out)));
+    }
+  }
+}
+
+function extOf(name: string) {
+  return '.' + name.split('.').pop()?.toLowerCase();
+}
+
+// Model files ordered by format priority, shallowest path first within a format
+function findModelCandidates(paths: string[]): string[] {
+  const depth = (p: string) => p.split('/').length;
+  return MODEL_FORMATS.flatMap(ext =>
+    paths.filter(p => extOf(p) === ext).sort((a, b) => depth(a) - depth(b)),
+  );
+}
+
+function fmtSize(bytes: number) {
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+function timeAgo(timestamp: number) {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+}
+
+function scoreColor(score: number) {
+  return score >= 80 ? 'var(--success)' : score >= 50 ? 'var(--warning)' : 'var(--error)';
+}
+
+function RecentModelsList({
+  entries,
+  onOpen,
+  onRemove,
+}: {
+  entries: RecentModel[];
+  onOpen: (entry: RecentModel) => void;
+  onRemove: (entry: RecentModel) => void;
+}) {
+  return (
+    <div className="max-w-md w-full mx-8" style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+      <div className="section-header" style={{ padding: '0 0 6px' }}>Recent models</div>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(132px, 1fr))', gap: 8 }}>
+        {entries.map((entry) => (
+          <div
+            key={entry.id}
+            className="stat-card"
+            title={`${entry.primaryPath} · ${fmtSize(entry.totalSize)}`}
+            onClick={() => onOpen(entry)}
+            style={{ padding: 0, overflow: 'hidden', cursor: 'pointer', position: 'relative' }}
+          >
+            <div style={{ aspectRatio: '4 / 3', background: 'var(--bg-card)' }}>
+              {entry.thumbnail && (
+                <img src={entry.thumbnail} alt="" style={{ width: '100%', height: '100%', objectFit: 'cover', display: 'block' }} />
+              )}
+            </div>
+            <div style={{ padding: '6px 8px', display: 'flex', flexDirection: 'column', gap: 2 }}>
+              <span style={{ fontSize: '0.72rem', fontWeight: 600, color: 'var(--text-primary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {entry.name}
+              </span>
+              <span style={{ fontSize: '0.62rem', color: 'var(--text-secondary)', display: 'flex', justifyContent: 'space-between' }}>
+                <span>{entry.stats ? `${entry.stats.totalTriangles.toLocaleString()} tris` : fmtSize(entry.totalSize)}</span>
+                <span>{timeAgo(entry.openedAt)}</span>
+              </span>
+            </div>
+            {entry.score !== undefined && (
+              <span
+                style={{
+                  position: 'absolute', top: 6, left: 6, fontSize: '0.6rem', fontWeight: 800,
+                  padding: '1px 6px', borderRadius: 10, background: 'rgba(10,10,18,0.8)', color: scoreColor(entry.score),
+                }}
+              >
+                {entry.score}
+              </span>
+            )}
+            <button
+              title="Remove from recent models"
+              onClick={(e) => { e.stopPropagation(); onRemove(entry); }}
+              style={{
+                position: 'absolute', top: 4, right: 4, width: 20, height: 20, borderRadius: 10,
+                border: 'none', background: 'rgba(10,10,18,0.8)', color: 'var(--text-secondary)',
+                fontSize: '0.7rem', cursor: 'pointer', lineHeight: '20px',
+              }}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function Dropzone({ onFilesSelected }: DropzoneProps) {
   const [dragging, setDragging] = useState(false);
+  const [extracting, setExtracting] = useState(false);
+  const [archive, setArchive] = useState<ArchiveContents | null>(null);
+  const [recent, setRecent] = useState<RecentModel[]>([]);
+
+  useEffect(() => {
+    RecentModelsStore.list()
+      .then(setRecent)
+      .catch(err => console.warn('Could not read recent models', err));
+  }, []);
+
+  const removeRecent = useCallback((entry: RecentModel) => {
+    setRecent(list => list.filter(e => e.id !== entry.id));
+    RecentModelsStore.remove(entry.id).catch(err => console.warn('Could not remove recent model', err));
+  }, []);
+
+  const handleFiles = useCallback(
+    async (dropped: Map<string, File>) => {
+      // Unpack ZIP deliveries in place; their contents become regular dropped files
+      const files = new Map<string, File>();
+      const archives: string[] = [];
+      for (const [path, file] of Array.from(dropped.entries())) {
+        if (!ArchiveExtractor.isArchive(path)) {
+          files.set(path, file);
+          continue;
+        }
+        setExtracting(true);
+        try {
+          const extracted = await ArchiveExtractor.extract(file);
+          extracted.forEach((f, p) => files.set(p, f));
+          archives.push(file.name);
+        } catch (err) {
+          alert(`Could not unpack ${file.name}: ${String(err)}`);
+        } finally {
+          setExtracting(false);
+        }
+      }
+
+      // Pick the model file in MODEL_FORMATS priority order; everything else is a resource for it
+      const candidates = findModelCandidates(Array.from(files.keys()));
+      if (candidates.length === 0) {
+        const exts = Array.from(new Set(Array.from(dropped.keys()).map(extOf))).join(', ');
+        alert(`Unsupported format: ${exts}. Supported: ${ACCEPTED.join(', ')}`);
+        return;
+      }
 
-  const handleFile = useCallback(
-    (file: File) => {
-      const ext = '.' + file.name.split('.').pop()?.toLowerCase();
-      if (!ACCEPTED.includes(ext)) {
-        alert(`Unsupported format: ${ext}. Supported: ${ACCEPTED.join(', ')}`);
+      // Archives are listed first so the user can check the contents or pick another model
+      if (archives.length > 0) {
+        setArchive({ name: archives.join(', '), files, candidates, selected: candidates[0] });
         return;
       }
-      onFileSelected(file);
+      onFilesSelected({ primary: files.get(candidates[0])!, primaryPath: candidates[0], files });
     },
-    [onFileSelected],
+    [onFilesSelected],
   );
 
+  const openArchive = () => {
+    if (!archive) return;
+    onFilesSelected({ primary: archive.files.get(archive.selected)!, primaryPath: archive.selected, files: archive.files });
+  };
+
   const onDrop = useCallback(
-    (e: React.DragEvent) => {
+    async (e: React.DragEvent) => {
       e.preventDefault();
       setDragging(false);
-      const file = e.dataTransfer.files[0];
-      if (file) handleFile(file);
+      const files = new Map<string, File>();
+      const entries = Array.from(e.dataTransfer.items)
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+
+      if (entries.length > 0) {
+        await Promise.all(entries.map(entry => collectEntries(entry, files)));
+      } else {
+        Array.from(e.dataTransfer.files).forEach(file => files.set(file.name, file));
+      }
+      if (files.size > 0) handleFiles(files);
     },
-    [handleFile],
+    [handleFiles],
   );
 
   const onDragOver = (e: React.DragEvent) => {
@@ -41,12 +221,76 @@ export default function Dropzone({ onFileSelected }: DropzoneProps) {
   const onDragLeave = () => setDragging(false);
 
   const onInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) handleFile(file);
+    const files = new Map<string, File>();
+    Array.from(e.target.files ?? []).forEach(file => files.set(file.webkitRelativePath || file.name, file));
+    if (files.size > 0) handleFiles(files);
   };
 
+  if (archive) {
+    return (
+      <div className="absolute inset-0 flex items-center justify-center z-10">
+        <div
+          className="dropzone flex flex-col gap-4 p-8 max-w-md w-full mx-8"
+          style={{ background: 'var(--bg-panel)', maxHeight: '80%' }}
+        >
+          <div>
+            <p style={{ color: 'var(--text-primary)', fontSize: '1rem', fontWeight: 600 }}>{archive.name}</p>
+            <p style={{ color: 'var(--text-secondary)', fontSize: '0.75rem' }}>
+              {archive.files.size} files · {archive.candidates.length > 1 ? 'choose the model to open' : 'model detected'}
+            </p>
+          </div>
+
+          <div style={{ flex: 1, overflowY: 'auto', border: '1px solid var(--border)', borderRadius: 8 }}>
+            {Array.from(archive.files.entries()).map(([path, f]) => {
+              const isCandidate = archive.candidates.includes(path);
+              const isSelected = archive.selected === path;
+              return (
+                <div
+                  key={path}
+                  className="prop-row"
+                  onClick={() => isCandidate && setArchive({ ...archive, selected: path })}
+                  style={{
+                    cursor: isCandidate ? 'pointer' : 'default',
+                    background: isSelected ? 'var(--accent-dim)' : 'transparent',
+                    color: isCandidate ? 'var(--text-primary)' : 'var(--text-secondary)',
+                  }}
+                >
+                  <span className="prop-key" style={{ color: 'inherit', fontWeight: isCandidate ? 600 : 400 }} title={path}>
+                    {isCandidate && (isSelected ? '● ' : '○ ')}{path}
+                  </span>
+                  <span className="prop-val">{fmtSize(f.size)}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button
+              onClick={openArchive}
+              style={{
+                flex: 1, background: 'var(--accent)', color: '#fff', padding: '10px 0', borderRadius: 8,
+                fontWeight: 600, fontSize: '0.85rem', border: 'none', cursor: 'pointer',
+              }}
+            >
+              Open {archive.selected.split('/').pop()}
+            </button>
+            <button
+              onClick={() => setArchive(null)}
+              style={{
+                padding: '10px 16px', borderRadius: 8, border: '1px solid var(--border)',
+                background: 'transparent', color: 'var(--text-secondary)', fontSize: '0.85rem', cursor: 'pointer',
+              }}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
-    <div className="absolute inset-0 flex items-center justify-center z-10">
+    <div className="absolute inset-0 flex flex-col items-center justify-center gap-6 z-10" style={{ overflowY: 'auto' }}>
       <div
         className={`dropzone ${dragging ? 'active' : ''} flex flex-col items-center justify-center gap-6 p-12 max-w-md w-full mx-8 text-center`}
         style={{ background: 'var(--bg-panel)' }}
@@ -98,13 +342,13 @@ export default function Dropzone({ onFileSelected }: DropzoneProps) {
 
         <div>
           <p style={{ color: 'var(--text-primary)', fontSize: '1.1rem', fontWeight: 600 }}>
-            Drop your 3D model here
+            {extracting ? 'Unpacking archive…' : 'Drop your 3D model here'}
           </p>
           <p
             className="mt-1"
             style={{ color: 'var(--text-secondary)', fontSize: '0.82rem' }}
           >
-            or click to browse files
+            with its .bin and texture files, or click to browse
           </p>
         </div>
 
@@ -127,7 +371,20 @@ export default function Dropzone({ onFileSelected }: DropzoneProps) {
           Browse Files
           <input
             type="file"
-            accept=".glb,.gltf,.obj,.fbx"
+            multiple
+            style={{ display: 'none' }}
+            onChange={onInputChange}
+          />
+        </label>
+
+        <label
+          className="cursor-pointer"
+          style={{ color: 'var(--accent)', fontSize: '0.78rem', fontWeight: 600, marginTop: -12 }}
+        >
+          or pick a whole folder
+          <input
+            type="file"
+            ref={(el) => el?.setAttribute('webkitdirectory', '')}
             style={{ display: 'none' }}
             onChange={onInputChange}
           />
@@ -142,9 +399,17 @@ export default function Dropzone({ onFileSelected }: DropzoneProps) {
         </div>
 
         <p style={{ color: 'var(--text-secondary)', fontSize: '0.72rem' }}>
-          Supports GLB, GLTF, OBJ formats
+          Supports GLB, GLTF, OBJ, FBX, STL, PLY, 3MF and DAE formats, or a ZIP of them
         </p>
       </div>
+
+      {recent.length > 0 && (
+        <RecentModelsList
+          entries={recent}
+          onOpen={(entry) => onFilesSelected(RecentModelsStore.toFileSet(entry))}
+          onRemove={removeRecent}
+        />
+      )}
     </div>
   );
 }
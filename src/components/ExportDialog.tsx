@@ -0,0 +1,388 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { ExportOptions, ExportWarning, QuantizationBits } from '@/types/model';
+import type { ExportResult } from '@/core/export/SceneExporter';
+
+interface ExportDialogProps {
+  initialOptions: ExportOptions;
+  hasAnimations: boolean;
+  // Whether the node being exported has descendants; only read for subtree exports
+  hasChildren?: boolean;
+  // What a USDZ export would lose; shown while USDZ is selected
+  usdzWarnings: ExportWarning[];
+  // Mesh selected in the viewer, offered as the only thing to write for OBJ / STL
+  selectedMesh?: { uuid: string; name: string } | null;
+  exporting: boolean;
+  lastResult: ExportResult | null;
+  error: string | null;
+  onExport: (options: ExportOptions) => void;
+  onClose: () => void;
+}
+
+const TEXTURE_SIZES = [Infinity, 4096, 2048, 1024, 512];
+
+const QUANTIZATION_FIELDS: { key: keyof QuantizationBits; label: string; min: number; max: number }[] = [
+  { key: 'position', label: 'Position', min: 8, max: 16 },
+  { key: 'normal', label: 'Normal', min: 6, max: 16 },
+  { key: 'texcoord', label: 'UV', min: 8, max: 16 },
+  { key: 'color', label: 'Color', min: 6, max: 16 },
+];
+
+function fmtSize(bytes: number) {
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+// ──────────────────────────────────────────────
+// Small form rows
+// ──────────────────────────────────────────────
+function CheckboxRow({
+  label,
+  hint,
+  checked,
+  disabled,
+  onChange,
+}: {
+  label: string;
+  hint?: string;
+  checked: boolean;
+  disabled?: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <label
+      className="prop-row"
+      style={{ cursor: disabled ? 'not-allowed' : 'pointer', opacity: disabled ? 0.45 : 1, gap: 10 }}
+    >
+      <span style={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        <span className="prop-key" style={{ color: 'var(--text-primary)' }}>{label}</span>
+        {hint && <span style={{ fontSize: '0.62rem', color: 'var(--text-secondary)' }}>{hint}</span>}
+      </span>
+      <input type="checkbox" checked={checked} disabled={disabled} onChange={(e) => onChange(e.target.checked)} />
+    </label>
+  );
+}
+
+function SegmentButton({
+  active,
+  disabled,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      style={{
+        flex: 1, padding: '7px 0', fontSize: '0.75rem', fontWeight: 600,
+        cursor: disabled ? 'not-allowed' : 'pointer', opacity: disabled ? 0.45 : 1,
+        border: `1px solid ${active ? 'var(--accent)' : 'var(--border)'}`,
+        background: active ? 'var(--accent-dim)' : 'transparent',
+        color: active ? 'var(--text-primary)' : 'var(--text-secondary)',
+        borderRadius: 6,
+      }}
+    >
+      {children}
+    </button>
+  );
+}
+
+function ResultSummary({ result }: { result: ExportResult }) {
+  const before = result.uncompressedSize;
+  const after = result.blob.size;
+  return (
+    <div
+      style={{
+        background: 'var(--bg-card)', border: '1px solid var(--border)', borderRadius: 8, padding: '8px 10px',
+        display: 'flex', flexDirection: 'column', gap: 4, fontSize: '0.72rem',
+      }}
+    >
+      <span className="font-mono" style={{ color: 'var(--text-primary)', wordBreak: 'break-all' }}>{result.fileName}</span>
+      {before !== undefined ? (
+        <span className="font-mono" style={{ color: 'var(--text-secondary)' }}>
+          {fmtSize(before)} → <span style={{ color: 'var(--text-primary)' }}>{fmtSize(after)}</span>
+          <span style={{ color: after < before ? 'var(--success)' : 'var(--warning)', marginLeft: 6 }}>
+            {after < before ? '−' : '+'}{Math.abs(Math.round((1 - after / before) * 100))}%
+          </span>
+        </span>
+      ) : (
+        <span className="font-mono" style={{ color: 'var(--text-secondary)' }}>{fmtSize(after)}</span>
+      )}
+    </div>
+  );
+}
+
+// ──────────────────────────────────────────────
+// Export dialog
+// ──────────────────────────────────────────────
+export default function ExportDialog({
+  initialOptions,
+  hasAnimations,
+  hasChildren = false,
+  usdzWarnings,
+  selectedMesh = null,
+  exporting,
+  lastResult,
+  error,
+  onExport,
+  onClose,
+}: ExportDialogProps) {
+  const [options, setOptions] = useState<ExportOptions>(initialOptions);
+  const [selectedOnly, setSelectedOnly] = useState(false);
+  const set = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) =>
+    setOptions(prev => ({ ...prev, [key]: value }));
+  const setBits = (key: keyof QuantizationBits, value: number) =>
+    setOptions(prev => ({ ...prev, quantization: { ...prev.quantization, [key]: value } }));
+  const setSubtree = (key: 'bakeWorldTransform' | 'includeChildren', value: boolean) =>
+    setOptions(prev => prev.subtree ? { ...prev, subtree: { ...prev.subtree, [key]: value } } : prev);
+  const subtree = options.subtree;
+
+  // The compressors re-encode a GLB, so compressed glTF output is always binary
+  const gltf = options.format === 'glb' || options.format === 'gltf';
+  const usdz = options.format === 'usdz';
+  const meshFile = options.format === 'obj' || options.format === 'stl';
+  const compressed = gltf && options.compression !== 'none';
+  const binary = options.format === 'glb' || compressed;
+  const selectable = meshFile && !subtree ? selectedMesh : null;
+  const extension = usdz ? '.usdz'
+    : options.format === 'obj' ? (options.objMaterials ? '.obj + .mtl + images (zip)' : '.obj')
+    : options.format === 'stl' ? '.stl'
+    : binary ? '.glb'
+    : options.embedImages ? '.gltf + .bin (zip)' : '.gltf + .bin + images (zip)';
+  const noAnimationHint = usdz ? 'USDZ export carries no animation' : meshFile ? 'OBJ and STL carry no animation' : undefined;
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'absolute', inset: 0, zIndex: 30, display: 'flex', alignItems: 'center', justifyContent: 'center',
+        background: 'rgba(10,10,15,0.6)', backdropFilter: 'blur(4px)',
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          width: 360, background: 'var(--bg-panel)', border: '1px solid var(--border)', borderRadius: 14,
+          padding: 18, display: 'flex', flexDirection: 'column', gap: 12,
+        }}
+      >
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <span style={{ fontSize: '0.95rem', fontWeight: 700, color: 'var(--text-primary)' }}>
+            {subtree ? 'Export node' : 'Export model'}
+          </span>
+          {subtree && (
+            <span
+              className="font-mono"
+              style={{ fontSize: '0.68rem', color: 'var(--text-secondary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+            >
+              {subtree.name}
+            </span>
+          )}
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+          <span className="prop-key">File name</span>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+            <input
+              value={options.fileName}
+              onChange={(e) => set('fileName', e.target.value)}
+              className="font-mono"
+              style={{
+                flex: 1, background: 'var(--bg-card)', border: '1px solid var(--border)', borderRadius: 6,
+                padding: '6px 8px', fontSize: '0.75rem', color: 'var(--text-primary)',
+              }}
+            />
+            <span className="font-mono" style={{ fontSize: '0.65rem', color: 'var(--text-secondary)' }}>{extension}</span>
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', gap: 6 }}>
+          <SegmentButton active={gltf && binary} onClick={() => set('format', 'glb')}>GLB</SegmentButton>
+          <SegmentButton active={gltf && !binary} disabled={compressed} onClick={() => set('format', 'gltf')}>glTF</SegmentButton>
+          <SegmentButton active={usdz} onClick={() => set('format', 'usdz')}>USDZ</SegmentButton>
+          <SegmentButton active={options.format === 'obj'} onClick={() => set('format', 'obj')}>OBJ</SegmentButton>
+          <SegmentButton active={options.format === 'stl'} onClick={() => set('format', 'stl')}>STL</SegmentButton>
+        </div>
+
+        {usdz && usdzWarnings.length > 0 && (
+          <div
+            style={{
+              display: 'flex', flexDirection: 'column', gap: 6, maxHeight: 160, overflowY: 'auto',
+              background: 'rgba(245,158,11,0.08)', border: '1px solid rgba(245,158,11,0.3)', borderRadius: 8, padding: '8px 10px',
+            }}
+          >
+            <span style={{ fontSize: '0.65rem', fontWeight: 800, color: 'var(--warning)', textTransform: 'uppercase' }}>
+              ⚠ USDZ pre-flight ({usdzWarnings.length})
+            </span>
+            {usdzWarnings.map(w => (
+              <div key={`${w.code}:${w.message}`} style={{ fontSize: '0.68rem', lineHeight: 1.4 }}>
+                <span style={{ color: 'var(--text-primary)' }}>{w.message}</span>
+                <span style={{ color: 'var(--text-secondary)' }}>
+                  {' '}· {w.subjects.slice(0, 3).join(', ')}{w.subjects.length > 3 ? ` +${w.subjects.length - 3} more` : ''}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {gltf && (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+            <span className="prop-key">Geometry compression</span>
+            <div style={{ display: 'flex', gap: 6 }}>
+              <SegmentButton active={!compressed} onClick={() => set('compression', 'none')}>None</SegmentButton>
+              <SegmentButton active={options.compression === 'draco'} onClick={() => set('compression', 'draco')}>Draco</SegmentButton>
+              <SegmentButton active={options.compression === 'meshopt'} onClick={() => set('compression', 'meshopt')}>Meshopt</SegmentButton>
+            </div>
+            {compressed && (
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 6 }}>
+                {QUANTIZATION_FIELDS.map(({ key, label, min, max }) => (
+                  <label key={key} style={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+                    <span style={{ fontSize: '0.62rem', color: 'var(--text-secondary)' }}>{label} bits</span>
+                    <input
+                      type="number"
+                      min={min}
+                      max={max}
+                      value={options.quantization[key]}
+                      onChange={(e) => setBits(key, Math.min(max, Math.max(min, Math.round(Number(e.target.value)) || min)))}
+                      className="font-mono"
+                      style={{
+                        width: '100%', background: 'var(--bg-card)', border: '1px solid var(--border)', borderRadius: 6,
+                        padding: '4px 6px', fontSize: '0.72rem', color: 'var(--text-primary)',
+                      }}
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div>
+          {subtree && (
+            <>
+              <CheckboxRow
+                label="Include children"
+                hint={hasChildren ? 'Off exports this node on its own' : 'This node has no children'}
+                checked={hasChildren && subtree.includeChildren}
+                disabled={!hasChildren}
+                onChange={(v) => setSubtree('includeChildren', v)}
+              />
+              <CheckboxRow
+                label="Bake world transform"
+                hint="Keep its placement in the model instead of its local transform"
+                checked={subtree.bakeWorldTransform}
+                onChange={(v) => setSubtree('bakeWorldTransform', v)}
+              />
+            </>
+          )}
+          {selectable && (
+            <CheckboxRow
+              label="Selected mesh only"
+              hint={selectable.name}
+              checked={selectedOnly}
+              onChange={setSelectedOnly}
+            />
+          )}
+          {options.format === 'obj' && (
+            <CheckboxRow
+              label="Write materials (.mtl)"
+              hint="Zipped together with the textures as PNG"
+              checked={options.objMaterials}
+              onChange={(v) => set('objMaterials', v)}
+            />
+          )}
+          {options.format === 'stl' && (
+            <CheckboxRow
+              label="Binary STL"
+              hint="Off writes ASCII, several times larger"
+              checked={options.stlBinary}
+              onChange={(v) => set('stlBinary', v)}
+            />
+          )}
+          {!meshFile && (
+            <CheckboxRow
+              label="Embed images"
+              hint={usdz ? 'USDZ always embeds its images' : binary ? 'GLB always embeds its images' : 'Off writes textures as separate files'}
+              checked={usdz || binary || options.embedImages}
+              disabled={usdz || binary}
+              onChange={(v) => set('embedImages', v)}
+            />
+          )}
+          <CheckboxRow
+            label="Include animations"
+            hint={hasAnimations ? noAnimationHint : undefined}
+            checked={gltf && hasAnimations && options.animations}
+            disabled={!gltf || !hasAnimations}
+            onChange={(v) => set('animations', v)}
+          />
+          <CheckboxRow
+            label="Only visible nodes"
+            hint={usdz ? 'USDZ export always skips hidden nodes' : undefined}
+            checked={usdz || options.onlyVisible}
+            disabled={usdz}
+            onChange={(v) => set('onlyVisible', v)}
+          />
+          <CheckboxRow
+            label="Truncate draw range"
+            hint="Drop vertices outside each geometry's draw range"
+            checked={options.truncateDrawRange}
+            onChange={(v) => set('truncateDrawRange', v)}
+          />
+          <label className="prop-row">
+            <span className="prop-key" style={{ color: 'var(--text-primary)' }}>Max texture size</span>
+            <select
+              value={String(options.maxTextureSize)}
+              onChange={(e) => set('maxTextureSize', Number(e.target.value))}
+              style={{
+                background: 'var(--bg-card)', border: '1px solid var(--border)', borderRadius: 6,
+                padding: '3px 6px', fontSize: '0.72rem', color: 'var(--text-primary)',
+              }}
+            >
+              {TEXTURE_SIZES.map(size => (
+                <option key={size} value={String(size)}>{size === Infinity ? 'Original' : `${size} px`}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {error && <p style={{ color: 'var(--error)', fontSize: '0.72rem' }}>{error}</p>}
+        {lastResult && !error && <ResultSummary result={lastResult} />}
+
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button
+            onClick={() => onExport({
+              ...options,
+              format: !gltf ? options.format : binary ? 'glb' : 'gltf',
+              compression: gltf ? options.compression : 'none',
+              subtree: selectable && selectedOnly
+                ? { uuid: selectable.uuid, name: selectable.name, bakeWorldTransform: true, includeChildren: false }
+                : options.subtree,
+              fileName: options.fileName.trim() || initialOptions.fileName,
+            })}
+            disabled={exporting}
+            style={{
+              flex: 1, background: exporting ? 'var(--bg-hover)' : 'var(--accent)', color: '#fff', padding: '9px 0',
+              borderRadius: 8, fontWeight: 600, fontSize: '0.8rem', border: 'none', cursor: exporting ? 'default' : 'pointer',
+            }}
+          >
+            {exporting ? '⏳ Exporting…' : 'Export'}
+          </button>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '9px 16px', borderRadius: 8, border: '1px solid var(--border)',
+              background: 'transparent', color: 'var(--text-secondary)', fontSize: '0.8rem', cursor: 'pointer',
+            }}
+          >
+            {lastResult ? 'Close' : 'Cancel'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
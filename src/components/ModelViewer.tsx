@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useRef, useCallback, useEffect, useState } from 'react';
+import React, { useRef, useCallback, useEffect, useMemo, useState } from 'react';
 import { Canvas, useThree, useFrame } from '@react-three/fiber';
 import {
   OrbitControls,
@@ -22,9 +22,6 @@ import {
   HueSaturation
 } from '@react-three/postprocessing';
 import * as THREE from 'three';
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
-import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
-import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
 import { extractMeshes, computeModelStats } from '@/utils/modelExtractor';
 import type {
   MeshInfo,
@@ -34,11 +31,30 @@ import type {
   LightingConfig,
   DebugRenderMode,
   AnimationClipInfo,
-  PlaybackConfig
+  PlaybackConfig,
+  ModelFileSet,
+  LoadStage,
+  ExportOptions,
+  ReportSnapshot,
+  RuleSettingsMap,
+  BudgetProfile
 } from '@/types/model';
 import { useSceneIntelligence } from '@/hooks/useSceneIntelligence';
+import { useRuntimeSampler } from '@/hooks/useRuntimeSampler';
 import { DebugMaterialEngine } from '@/core/debug/DebugMaterialEngine';
+import { TextureAnalyzer } from '@/core/debug/TextureAnalyzer';
+import { GPUCostAnalyzer } from '@/core/debug/GPUCostAnalyzer';
 import { AnimationEngine } from '@/core/animation/AnimationEngine';
+import { FileSetResolver } from '@/core/loading/FileSetResolver';
+import { ModelLoader } from '@/core/loading/ModelLoader';
+import { ModelLoadError } from '@/core/loading/ModelLoadError';
+import { RecentModelsStore } from '@/core/storage/RecentModelsStore';
+import { SceneExporter, type ExportResult } from '@/core/export/SceneExporter';
+import { UsdzPreflight } from '@/core/export/UsdzPreflight';
+import { BudgetProfiles } from '@/core/analysis/BudgetProfiles';
+import ExportDialog from '@/components/ExportDialog';
+import { SceneTransfer } from '@/core/loading/SceneTransfer';
+import type { ModelLoaderMessage } from '@/workers/modelLoader.worker';
 
 // ──────────────────────────────────────────────
 // Highlight selected mesh with a BoxHelper outline
@@ -134,6 +150,88 @@ function AutoFitCamera({ scene }: { scene: THREE.Object3D | null }) {
   return null;
 }
 
+// ──────────────────────────────────────────────
+// Capture a thumbnail once the camera has framed
+// a freshly loaded model
+// ──────────────────────────────────────────────
+function ThumbnailCapture({
+  scene,
+  onCapture,
+}: {
+  scene: THREE.Object3D | null;
+  onCapture: (dataUrl: string) => void;
+}) {
+  const { gl, scene: threeScene, camera } = useThree();
+
+  useEffect(() => {
+    if (!scene) return;
+    // Give the environment map a moment to load so the thumbnail isn't lit by ambient only
+    const timer = setTimeout(() => {
+      gl.render(threeScene, camera);
+      onCapture(RecentModelsStore.createThumbnail(gl.domElement));
+    }, 800);
+    return () => clearTimeout(timer);
+    // Once per loaded model; later edits don't replace the thumbnail
+  }, [scene]);
+
+  return null;
+}
+
+// ──────────────────────────────────────────────
+// Report capture: debug-mode screenshots and live scene metrics for the HTML report
+// ──────────────────────────────────────────────
+const REPORT_VIEWS: { mode: DebugRenderMode; label: string }[] = [
+  { mode: 'none', label: 'Shaded' },
+  { mode: 'heatmap', label: 'Texture density heatmap' },
+  { mode: 'overdraw', label: 'Overdraw' },
+  { mode: 'gpu_cost', label: 'GPU cost' },
+];
+const REPORT_SCREENSHOT_WIDTH = 1280;
+
+function ReportCapture({
+  scene,
+  debugMode,
+  onReady,
+}: {
+  scene: THREE.Object3D | null;
+  debugMode: DebugRenderMode;
+  onReady: (capture: (() => ReportSnapshot) | null) => void;
+}) {
+  const { gl, scene: threeScene, camera } = useThree();
+
+  useEffect(() => {
+    if (!scene) return;
+    onReady(() => {
+      const screenshots = REPORT_VIEWS.map(({ mode, label }) => {
+        DebugMaterialEngine.applyMode(scene, mode);
+        gl.render(threeScene, camera);
+        return { mode, label, dataUrl: downscaleCanvas(gl.domElement, REPORT_SCREENSHOT_WIDTH) };
+      });
+      // The last view left debug materials on; measure the originals, then put the user's mode back
+      DebugMaterialEngine.applyMode(scene, 'none');
+      const snapshot: ReportSnapshot = {
+        screenshots,
+        textureDistribution: TextureAnalyzer.getSceneTextureDistribution(scene),
+        gpu: GPUCostAnalyzer.getSceneGPUReport(scene),
+      };
+      DebugMaterialEngine.applyMode(scene, debugMode);
+      return snapshot;
+    });
+    return () => onReady(null);
+  }, [scene, debugMode, gl, threeScene, camera, onReady]);
+
+  return null;
+}
+
+function downscaleCanvas(source: HTMLCanvasElement, maxWidth: number): string {
+  const scale = Math.min(1, maxWidth / source.width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(source.width * scale);
+  canvas.height = Math.round(source.height * scale);
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.85);
+}
+
 // ──────────────────────────────────────────────
 // Wireframe controller
 // ──────────────────────────────────────────────
@@ -182,12 +280,88 @@ function ModelObject({
 // ──────────────────────────────────────────────
 // Performance Monitor Component
 // ──────────────────────────────────────────────
+type RenderHook = 'onBeforeRender' | 'onAfterRender' | 'onBeforeShadow' | 'onAfterShadow';
+const RENDER_HOOKS: RenderHook[] = ['onBeforeRender', 'onAfterRender', 'onBeforeShadow', 'onAfterShadow'];
+
+/**
+ * Draw calls and triangles of the model's own meshes over the last frame's main camera renders,
+ * shadow map and transmission passes included. gl.info.render can't be used: it only holds the
+ * last gl.render() of a frame, which is the gizmo's HUD pass, and the grid and helpers would count too.
+ */
+function useModelRenderCounts(model: THREE.Object3D) {
+  const { gl, scene, camera } = useThree();
+  const frame = useRef({ calls: 0, triangles: 0 });
+  const last = useRef({ calls: 0, triangles: 0 });
+  // Wraps meshes added since the last call (optimizations replace meshes)
+  const instrument = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    let active = false;
+    let startCalls = 0;
+    let startTriangles = 0;
+    const originals = new Map<THREE.Object3D, Pick<THREE.Object3D, RenderHook>>();
+    const begin = () => {
+      startCalls = gl.info.render.calls;
+      startTriangles = gl.info.render.triangles;
+    };
+    const end = () => {
+      frame.current.calls += gl.info.render.calls - startCalls;
+      frame.current.triangles += gl.info.render.triangles - startTriangles;
+    };
+
+    instrument.current = () => model.traverse((node) => {
+      if (!(node as THREE.Mesh).isMesh || originals.has(node)) return;
+      const hooks = { onBeforeRender: node.onBeforeRender, onAfterRender: node.onAfterRender, onBeforeShadow: node.onBeforeShadow, onAfterShadow: node.onAfterShadow };
+      originals.set(node, hooks);
+      RENDER_HOOKS.forEach((hook) => {
+        const original = hooks[hook] as (...args: unknown[]) => void;
+        const count = hook.startsWith('onBefore') ? begin : end;
+        (node as any)[hook] = function (this: THREE.Object3D, ...args: unknown[]) {
+          if (active) count();
+          original.apply(this, args);
+        };
+      });
+    });
+    instrument.current();
+
+    // Contact shadows render the scene too, from their own camera; only the viewer camera's renders count
+    const sceneHooks = { onBeforeRender: scene.onBeforeRender, onAfterRender: scene.onAfterRender };
+    scene.onBeforeRender = function (...args) {
+      active = args[2] === camera;
+      sceneHooks.onBeforeRender.apply(this, args);
+    };
+    scene.onAfterRender = function (...args) {
+      active = false;
+      sceneHooks.onAfterRender.apply(this, args);
+    };
+
+    return () => {
+      scene.onBeforeRender = sceneHooks.onBeforeRender;
+      scene.onAfterRender = sceneHooks.onAfterRender;
+      originals.forEach((hooks, node) => Object.assign(node, hooks));
+      instrument.current = () => {};
+    };
+  }, [gl, scene, camera, model]);
+
+  // Runs before the frame's renders: the previous frame is complete
+  useFrame(() => {
+    last.current = frame.current;
+    frame.current = { calls: 0, triangles: 0 };
+  });
+
+  return { counts: last, instrument };
+}
+
 function PerformanceMonitor({
+  model,
   onUpdate,
 }: {
-  onUpdate: (stats: PerformanceStats) => void;
+  model: THREE.Object3D;
+  // frames: how many frames the stats were measured over
+  onUpdate: (stats: PerformanceStats, frames: number) => void;
 }) {
   const { gl } = useThree();
+  const { counts, instrument } = useModelRenderCounts(model);
   const lastTime = useRef(performance.now());
   const frames = useRef(0);
   const lastUpdate = useRef(0);
@@ -211,11 +385,12 @@ function PerformanceMonitor({
       // But for specific breakdown, we'd need traversal.
       // We'll use renderer.info + some heuristics if needed.
 
+      instrument.current();
       const stats: PerformanceStats = {
         fps,
         frameTime: Math.min(frameTime * 1000, 1000), // ms
-        drawCalls: gl.info.render.calls,
-        triangles: gl.info.render.triangles,
+        drawCalls: counts.current.calls,
+        triangles: counts.current.triangles,
         vertices: 0, // Not directly available from gl.info, would need to sum attributes
         geometries: gl.info.memory.geometries,
         textures: gl.info.memory.textures,
@@ -226,12 +401,14 @@ function PerformanceMonitor({
         },
       };
 
+      const sampledFrames = frames.current;
+
       // Reset counters
       frames.current = 0;
       lastTime.current = now;
       lastUpdate.current = now;
 
-      onUpdate(stats);
+      onUpdate(stats, sampledFrames);
     }
   });
 
@@ -260,6 +437,8 @@ function SuccessPulse({ pulseKey, scene }: { pulseKey: number; scene: THREE.Obje
         const mats = Array.isArray(node.material) ? node.material : [node.material];
         mats.forEach((m: any) => {
           if (m.emissive) {
+            // Remember the authored emissive so it can be restored (and exported mid-pulse)
+            if (m.userData.originalEmissive === undefined) m.userData.originalEmissive = m.emissive.getHex();
             m.emissive.set(0x22d3a3).multiplyScalar(opacity.current * 0.4);
           }
         });
@@ -273,7 +452,10 @@ function SuccessPulse({ pulseKey, scene }: { pulseKey: number; scene: THREE.Obje
         if (node instanceof THREE.Mesh) {
           const mats = Array.isArray(node.material) ? node.material : [node.material];
           mats.forEach((m: any) => {
-            if (m.emissive) m.emissive.set(0x000000);
+            if (m.emissive && m.userData.originalEmissive !== undefined) {
+              m.emissive.setHex(m.userData.originalEmissive);
+              delete m.userData.originalEmissive;
+            }
           });
         }
       });
@@ -460,10 +642,10 @@ function CanvasToolbar({
 
       <div style={{ width: 1, background: 'var(--border)', margin: '0 2px' }} />
 
-      {/* Export GLB */}
+      {/* Export */}
       <button
         className="toolbar-btn"
-        title="Export as GLB"
+        title="Export model"
         onClick={onExport}
         disabled={exporting}
         style={{
@@ -487,7 +669,7 @@ function CanvasToolbar({
               <polyline points="7 10 12 15 17 10" />
               <line x1="12" y1="15" x2="12" y2="3" />
             </svg>
-            Export GLB
+            Export
           </>
         )}
       </button>
@@ -498,7 +680,24 @@ function CanvasToolbar({
 // ──────────────────────────────────────────────
 // Loading overlay
 // ──────────────────────────────────────────────
-function LoadingOverlay({ progress }: { progress: number }) {
+const STAGE_LABELS: Record<LoadStage, string> = {
+  parsing: 'Parsing model…',
+  extracting: 'Extracting meshes…',
+  analyzing: 'Analyzing scene…',
+};
+
+function LoadingOverlay({
+  stage,
+  progress,
+  onCancel,
+}: {
+  stage: LoadStage;
+  progress: number;
+  onCancel: () => void;
+}) {
+  const stages = Object.keys(STAGE_LABELS) as LoadStage[];
+  const current = stages.indexOf(stage);
+
   return (
     <div
       style={{
@@ -517,13 +716,34 @@ function LoadingOverlay({ progress }: { progress: number }) {
         animation: 'spin 0.8s linear infinite',
       }} />
       <div style={{ fontSize: '0.9rem', color: 'var(--text-primary)', fontWeight: 600 }}>
-        Loading model…
+        {STAGE_LABELS[stage]}
       </div>
-      {progress > 0 && (
+      <div style={{ display: 'flex', gap: 6 }}>
+        {stages.map((s, i) => (
+          <div
+            key={s}
+            title={STAGE_LABELS[s]}
+            style={{
+              width: 36, height: 3, borderRadius: 2,
+              background: i < current ? 'var(--success)' : i === current ? 'var(--accent)' : 'var(--border)',
+            }}
+          />
+        ))}
+      </div>
+      {stage === 'parsing' && progress > 0 && (
         <div style={{ width: 200, height: 4, background: 'var(--border)', borderRadius: 2, overflow: 'hidden' }}>
           <div style={{ width: `${progress}%`, height: '100%', background: 'var(--accent)', transition: 'width 0.2s ease' }} />
         </div>
       )}
+      <button
+        onClick={onCancel}
+        style={{
+          padding: '6px 16px', borderRadius: 8, border: '1px solid var(--border)',
+          background: 'transparent', color: 'var(--text-secondary)', fontSize: '0.78rem', cursor: 'pointer',
+        }}
+      >
+        Cancel
+      </button>
     </div>
   );
 }
@@ -538,7 +758,7 @@ export interface ColorOverride {
 }
 
 interface ViewerProps {
-  file: File | null;
+  fileSet: ModelFileSet | null;
   onModelLoaded: (meshes: MeshInfo[], stats: ModelStats, scene: THREE.Object3D) => void;
   selectedMeshUuid: string | null;
   onSelectMesh: (uuid: string | null) => void;
@@ -555,10 +775,20 @@ interface ViewerProps {
   playbackConfig?: PlaybackConfig;
   onPlaybackUpdate?: (time: number) => void;
   onAnimationsLoaded?: (clips: AnimationClipInfo[]) => void;
+  onThumbnail?: (dataUrl: string) => void;
+  // Node picked for "Export this node" in the scene explorer
+  exportNodeUuid?: string | null;
+  onExportNodeClose?: () => void;
+  // Receives a function that captures what the HTML report needs from the renderer
+  onReportCaptureReady?: (capture: (() => ReportSnapshot) | null) => void;
+  // Per-project rule overrides for the optimization analysis
+  ruleSettings?: RuleSettingsMap;
+  // Target platform the analysis scores against
+  budgetProfile?: BudgetProfile;
 }
 
 export default function ModelViewer({
-  file,
+  fileSet,
   onModelLoaded,
   selectedMeshUuid,
   onSelectMesh,
@@ -575,17 +805,70 @@ export default function ModelViewer({
   playbackConfig,
   onPlaybackUpdate,
   onAnimationsLoaded,
+  onThumbnail,
+  exportNodeUuid = null,
+  onExportNodeClose,
+  onReportCaptureReady,
+  ruleSettings,
+  budgetProfile,
 }: ViewerProps) {
   const [model, setModel] = useState<THREE.Object3D | null>(null);
   const sceneRef = useRef<THREE.Object3D | null>(null);
   const [loading, setLoading] = useState(false);
   const [loadProgress, setLoadProgress] = useState(0);
-  const [error, setError] = useState<string | null>(null);
+  const [loadStage, setLoadStage] = useState<LoadStage>('parsing');
+  const [precomputedReport, setPrecomputedReport] = useState<SceneAnalysisReport | null>(null);
+  const [error, setError] = useState<ModelLoadError | null>(null);
+  const [missingResources, setMissingResources] = useState<string[]>([]);
   const [showWireframe, setShowWireframe] = useState(false);
   const [resetSignal, setResetSignal] = useState(0);
   const [exporting, setExporting] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [lastExport, setLastExport] = useState<ExportResult | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const animationsRef = useRef<THREE.AnimationClip[]>([]);
+  // Read by the load effect, which must not restart when only the settings change
+  const ruleSettingsRef = useRef(ruleSettings);
+  ruleSettingsRef.current = ruleSettings;
+  const budgetProfileRef = useRef(budgetProfile);
+  budgetProfileRef.current = budgetProfile;
+  const exportNode = useMemo(
+    () => (model && exportNodeUuid ? model.getObjectByProperty('uuid', exportNodeUuid) ?? null : null),
+    [model, exportNodeUuid],
+  );
+  const exportDialogOpen = showExportDialog || !!exportNode;
+  const selectedMesh = useMemo(() => {
+    const node = model && selectedMeshUuid ? model.getObjectByProperty('uuid', selectedMeshUuid) : undefined;
+    return node ? { uuid: node.uuid, name: node.name || node.type } : null;
+  }, [model, selectedMeshUuid]);
+  const usdzWarnings = useMemo(() => {
+    if (!model || !exportDialogOpen) return [];
+    const root = exportNode ?? model;
+    const clips = exportNode ? SceneExporter.clipsForSubtree(animationsRef.current, exportNode) : animationsRef.current;
+    return UsdzPreflight.check(root, clips);
+  }, [model, exportNode, exportDialogOpen]);
 
-  const analysisReport = useSceneIntelligence(model, analysisRefreshKey);
+  useEffect(() => {
+    if (!exportNodeUuid) return;
+    setLastExport(null);
+    setExportError(null);
+  }, [exportNodeUuid]);
+
+  // Runtime rules run on renderer stats sampled while the current scene is on screen
+  const { metrics: runtimeMetrics, addSample } = useRuntimeSampler(model, analysisRefreshKey);
+  const handlePerformanceUpdate = useCallback((stats: PerformanceStats, frames: number) => {
+    addSample(stats, frames);
+    onPerformanceUpdate?.(stats);
+  }, [addSample, onPerformanceUpdate]);
+
+  const analysisReport = useSceneIntelligence(
+    model,
+    analysisRefreshKey,
+    precomputedReport,
+    ruleSettings,
+    budgetProfile,
+    runtimeMetrics,
+  );
 
   useEffect(() => {
     if (analysisReport && onAnalysisUpdate) {
@@ -595,76 +878,123 @@ export default function ModelViewer({
 
   // Load model
   useEffect(() => {
-    if (!file) return;
+    if (!fileSet) return;
     setLoading(true);
+    setLoadStage('parsing');
     setLoadProgress(0);
     setError(null);
+    setMissingResources([]);
+    setPrecomputedReport(null);
     setModel(null);
 
-    const url = URL.createObjectURL(file);
-    const ext = file.name.split('.').pop()?.toLowerCase();
+    const file = fileSet.primary;
+    const resolver = new FileSetResolver(fileSet);
+    // Aborted when another file replaces this one or the user cancels, so a stale load never reaches setModel
+    const abort = new AbortController();
+    let worker: Worker | null = null;
+
+    const finishLoad = (
+      root: THREE.Object3D,
+      animations: THREE.AnimationClip[],
+      meshes: MeshInfo[],
+      stats: ModelStats,
+      report: SceneAnalysisReport | null = null,
+    ) => {
+      if (abort.signal.aborted) return;
+      root.userData.fileName = file.name.replace(/\.[^.]+$/, '');
+      sceneRef.current = root;
+      animationsRef.current = animations;
+      setPrecomputedReport(report);
+      setModel(root);
+      onModelLoaded(meshes, stats, root);
+
+      if (animations.length > 0) {
+        AnimationEngine.init(root, animations);
+        if (onAnimationsLoaded) {
+          onAnimationsLoaded(AnimationEngine.getClipsInfo());
+        }
+      } else {
+        AnimationEngine.stop();
+      }
 
-    const onProgress = (e: ProgressEvent) => {
-      if (e.total) setLoadProgress((e.loaded / e.total) * 100);
+      setMissingResources(Array.from(resolver.missing));
+      setLoading(false);
     };
 
-    if (ext === 'glb' || ext === 'gltf') {
-      new GLTFLoader().load(
-        url,
-        (gltf) => {
-          gltf.scene.traverse((node) => {
-            if (node instanceof THREE.Mesh) {
-              node.castShadow = true;
-              node.receiveShadow = true;
-            }
-          });
-          const meshes = extractMeshes(gltf.scene);
-          const stats = computeModelStats(gltf.scene, meshes, gltf.animations, file.name, file.size);
-          sceneRef.current = gltf.scene;
-          setModel(gltf.scene);
-          onModelLoaded(meshes, stats, gltf.scene);
-
-          if (gltf.animations && gltf.animations.length > 0) {
-            AnimationEngine.init(gltf.scene, gltf.animations);
-            if (onAnimationsLoaded) {
-              onAnimationsLoaded(AnimationEngine.getClipsInfo());
-            }
-          }
+    const onError = (err: unknown) => {
+      if (abort.signal.aborted || ModelLoadError.isAbort(err)) return;
+      console.error('Model load error', err);
+      setMissingResources(Array.from(resolver.missing));
+      setError(ModelLoadError.from(err, resolver.missing));
+      setLoading(false);
+    };
 
-          setLoading(false);
-          URL.revokeObjectURL(url);
-        },
-        onProgress,
-        (err) => { setError(String(err)); setLoading(false); URL.revokeObjectURL(url); },
-      );
-    } else if (ext === 'obj') {
-      new OBJLoader().load(
-        url,
-        (obj) => {
-          obj.traverse((node) => {
+    const loadOnMainThread = () => {
+      setLoadStage('parsing');
+      setLoadProgress(0);
+      ModelLoader.load(fileSet, resolver, { onProgress: setLoadProgress, signal: abort.signal })
+        .then(({ root, animations, extraStats }) => {
+          if (abort.signal.aborted) return;
+          setLoadStage('extracting');
+          root.traverse((node) => {
             if (node instanceof THREE.Mesh) {
               node.castShadow = true;
               node.receiveShadow = true;
             }
           });
-          const meshes = extractMeshes(obj);
-          const stats = computeModelStats(obj, meshes, [], file.name, file.size);
-          sceneRef.current = obj;
-          setModel(obj);
-          onModelLoaded(meshes, stats, obj);
-          AnimationEngine.stop(); // OBJ typically doesn't have animations
-          setLoading(false);
-          URL.revokeObjectURL(url);
-        },
-        onProgress,
-        (err) => { setError(String(err)); setLoading(false); URL.revokeObjectURL(url); },
-      );
+          const meshes = extractMeshes(root);
+          const stats = { ...computeModelStats(root, meshes, animations, file.name, file.size), ...extraStats };
+          finishLoad(root, animations, meshes, stats);
+        })
+        .catch(onError);
+    };
+
+    // Parse, extract and analyze off the main thread where the format allows it;
+    // anything the worker can't handle is loaded here instead.
+    if (typeof Worker !== 'undefined' && ModelLoader.WORKER_FORMATS.includes(ModelLoader.getExtension(fileSet))) {
+      const loadWorker = new Worker(new URL('../workers/modelLoader.worker.ts', import.meta.url));
+      worker = loadWorker;
+
+      const fallback = (reason: string) => {
+        console.warn('Worker load failed, retrying on main thread:', reason);
+        loadWorker.terminate();
+        loadOnMainThread();
+      };
+
+      loadWorker.onmessage = ({ data }: MessageEvent<ModelLoaderMessage>) => {
+        if (data.type === 'progress') {
+          setLoadStage(data.stage);
+          setLoadProgress(data.percent);
+        } else if (data.type === 'result') {
+          loadWorker.terminate();
+          const { root, animations } = SceneTransfer.deserialize(data.scene);
+          data.missing.forEach(path => resolver.missing.add(path));
+          finishLoad(root, animations, data.meshes, data.stats, data.report);
+        } else if (data.type === 'error') {
+          loadWorker.terminate();
+          data.missing.forEach(path => resolver.missing.add(path));
+          onError(new ModelLoadError(data.code, data.message));
+        } else {
+          fallback(data.reason);
+        }
+      };
+      loadWorker.onerror = (e) => fallback(e.message);
+      loadWorker.postMessage({
+        fileSet,
+        ruleSettings: ruleSettingsRef.current ?? {},
+        budgetProfile: budgetProfileRef.current ?? BudgetProfiles.default,
+      });
     } else {
-      setError(`Unsupported format: .${ext}`);
-      setLoading(false);
-      URL.revokeObjectURL(url);
+      loadOnMainThread();
     }
-  }, [file]);
+
+    // Textures may still be streaming in after onLoad, so object URLs live until the next file
+    return () => {
+      abort.abort();
+      worker?.terminate();
+      resolver.dispose();
+    };
+  }, [fileSet]);
 
   // Apply color overrides to live scene
   useEffect(() => {
@@ -715,26 +1045,27 @@ export default function ModelViewer({
     DebugMaterialEngine.applyMode(model, debugMode);
   }, [debugMode, model]);
 
-  // Export as GLB
-  const handleExport = useCallback(() => {
+  // Export through the options dialog
+  const handleExport = useCallback(async (options: ExportOptions) => {
     if (!model) return;
     setExporting(true);
-    const exporter = new GLTFExporter();
-    exporter.parse(
-      model,
-      (result) => {
-        const blob = new Blob([result as ArrayBuffer], { type: 'application/octet-stream' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = (sceneRef.current?.userData?.fileName ?? 'model_modified') + '.glb';
-        a.click();
-        URL.revokeObjectURL(url);
-        setExporting(false);
-      },
-      (err) => { console.error('Export error', err); setExporting(false); },
-      { binary: true },
-    );
+    setExportError(null);
+    try {
+      const result = await SceneExporter.export(model, animationsRef.current, options);
+      const url = URL.createObjectURL(result.blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = result.fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+      // Keep the dialog open so the resulting size (and compression savings) can be read
+      setLastExport(result);
+    } catch (err) {
+      console.error('Export error', err);
+      setExportError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setExporting(false);
+    }
   }, [model]);
 
   return (
@@ -748,12 +1079,57 @@ export default function ModelViewer({
           showWireframe={showWireframe} onToggleWireframe={() => setShowWireframe((v) => !v)}
           onReset={() => setResetSignal((v) => v + 1)}
           onLoadNew={onLoadNew}
-          onExport={handleExport}
+          onExport={() => {
+            setLastExport(null);
+            setExportError(null);
+            onExportNodeClose?.();
+            setShowExportDialog(true);
+          }}
           exporting={exporting}
         />
       )}
 
-      {loading && <LoadingOverlay progress={loadProgress} />}
+      {model && exportDialogOpen && (
+        <ExportDialog
+          key={exportNode?.uuid ?? 'scene'}
+          initialOptions={{
+            fileName: exportNode
+              ? (exportNode.name || exportNode.type).replace(/[^\w-]+/g, '_')
+              : `${model.userData.fileName ?? 'model'}_modified`,
+            format: 'glb',
+            embedImages: true,
+            animations: true,
+            onlyVisible: true,
+            truncateDrawRange: true,
+            maxTextureSize: Infinity,
+            compression: 'none',
+            quantization: { position: 14, normal: 10, texcoord: 12, color: 8 },
+            objMaterials: true,
+            stlBinary: true,
+            subtree: exportNode
+              ? { uuid: exportNode.uuid, name: exportNode.name || exportNode.type, bakeWorldTransform: true, includeChildren: true }
+              : undefined,
+          }}
+          hasAnimations={
+            exportNode
+              ? SceneExporter.clipsForSubtree(animationsRef.current, exportNode).length > 0
+              : animationsRef.current.length > 0
+          }
+          hasChildren={!!exportNode && exportNode.children.length > 0}
+          usdzWarnings={usdzWarnings}
+          selectedMesh={selectedMesh}
+          exporting={exporting}
+          lastResult={lastExport}
+          error={exportError}
+          onExport={handleExport}
+          onClose={() => {
+            setShowExportDialog(false);
+            onExportNodeClose?.();
+          }}
+        />
+      )}
+
+      {loading && <LoadingOverlay stage={loadStage} progress={loadProgress} onCancel={onLoadNew} />}
 
       {error && (
         <div style={{
@@ -761,8 +1137,28 @@ export default function ModelViewer({
           background: 'var(--bg-card)', border: '1px solid var(--error)', borderRadius: 12,
           padding: '20px 28px', color: 'var(--error)', zIndex: 20, textAlign: 'center', maxWidth: 320,
         }}>
-          <div style={{ fontSize: '1.1rem', fontWeight: 700, marginBottom: 6 }}>Failed to load</div>
-          <div style={{ fontSize: '0.8rem', opacity: 0.8 }}>{error}</div>
+          <div style={{ fontSize: '1.1rem', fontWeight: 700, marginBottom: 6 }}>{error.title}</div>
+          <div style={{ fontSize: '0.8rem', opacity: 0.8, wordBreak: 'break-word' }}>{error.message}</div>
+          <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: 10, lineHeight: 1.5 }}>{error.hint}</div>
+          <button
+            onClick={onLoadNew}
+            style={{
+              marginTop: 14, padding: '8px 16px', borderRadius: 8, border: '1px solid var(--border)',
+              background: 'transparent', color: 'var(--text-primary)', fontSize: '0.8rem', cursor: 'pointer',
+            }}
+          >
+            Choose another file
+          </button>
+        </div>
+      )}
+
+      {!error && missingResources.length > 0 && (
+        <div style={{
+          position: 'absolute', top: 56, left: 12, zIndex: 5, maxWidth: 360,
+          background: 'rgba(245,158,11,0.12)', border: '1px solid var(--warning)', borderRadius: 8,
+          padding: '6px 10px', color: 'var(--warning)', fontSize: '0.7rem',
+        }}>
+          ⚠️ Missing referenced files: {missingResources.join(', ')}
         </div>
       )}
 
@@ -825,9 +1221,11 @@ export default function ModelViewer({
             />
             <WireframeController scene={model} enabled={showWireframe} />
             <AutoFitCamera scene={model} key={model.uuid} />
-            {onPerformanceUpdate && (
-              <PerformanceMonitor onUpdate={onPerformanceUpdate} />
+            {onThumbnail && <ThumbnailCapture scene={model} onCapture={onThumbnail} />}
+            {onReportCaptureReady && (
+              <ReportCapture scene={model} debugMode={debugMode} onReady={onReportCaptureReady} />
             )}
+            <PerformanceMonitor model={model} onUpdate={handlePerformanceUpdate} />
             <SuccessPulse pulseKey={analysisRefreshKey} scene={model} />
             <LuminanceAnalyzer active={lightingConfig.postProcessing.enabled} />
 
@@ -0,0 +1,58 @@
+'use client';
+
+import React from 'react';
+import type { ModelLoadError } from '@/core/loading/ModelLoadError';
+
+interface RemoteSourceStatusProps {
+  url: string;
+  progress: number;
+  error: ModelLoadError | null;
+  onCancel: () => void;
+}
+
+// Download progress / failure for models opened through /viewer?src=<url>
+export default function RemoteSourceStatus({ url, progress, error, onCancel }: RemoteSourceStatusProps) {
+  return (
+    <div className="absolute inset-0 flex items-center justify-center z-10">
+      <div
+        className="flex flex-col items-center gap-4 p-10 max-w-md w-full mx-8 text-center"
+        style={{
+          background: 'var(--bg-panel)',
+          border: `1px solid ${error ? 'var(--error)' : 'var(--border)'}`,
+          borderRadius: 16,
+        }}
+      >
+        <p style={{ color: error ? 'var(--error)' : 'var(--text-primary)', fontSize: '1.05rem', fontWeight: 600 }}>
+          {error ? error.title : 'Downloading model…'}
+        </p>
+        <p
+          className="font-mono"
+          style={{ color: 'var(--text-secondary)', fontSize: '0.72rem', wordBreak: 'break-all' }}
+        >
+          {url}
+        </p>
+
+        {error ? (
+          <>
+            <p style={{ color: 'var(--text-primary)', fontSize: '0.8rem', opacity: 0.8 }}>{error.message}</p>
+            <p style={{ color: 'var(--text-secondary)', fontSize: '0.75rem', lineHeight: 1.5 }}>{error.hint}</p>
+          </>
+        ) : (
+          <div style={{ width: 220, height: 4, background: 'var(--border)', borderRadius: 2, overflow: 'hidden' }}>
+            <div style={{ width: `${progress}%`, height: '100%', background: 'var(--accent)', transition: 'width 0.2s ease' }} />
+          </div>
+        )}
+
+        <button
+          onClick={onCancel}
+          style={{
+            padding: '8px 16px', borderRadius: 8, border: '1px solid var(--border)',
+            background: 'transparent', color: 'var(--text-secondary)', fontSize: '0.8rem', cursor: 'pointer',
+          }}
+        >
+          {error ? 'Open a local file instead' : 'Cancel'}
+        </button>
+      </div>
+    </div>
+  );
+}
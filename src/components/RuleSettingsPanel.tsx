@@ -0,0 +1,221 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { BudgetLimits, RuleCategory, RuleSettings, RuleSettingsMap, StructuralIssue } from '@/types/model';
+import { RuleRegistry, type OptimizationRule } from '@/core/analysis/RuleRegistry';
+import { ProjectConfigFile } from '@/core/analysis/ProjectConfigFile';
+
+interface RuleSettingsPanelProps {
+  settings: RuleSettingsMap;
+  onChange: (settings: RuleSettingsMap) => void;
+  // Limits of the active budget profile, which some options default to
+  limits: BudgetLimits;
+}
+
+const CATEGORY_LABELS: Record<RuleCategory, string> = {
+  draw_calls: 'Draw calls',
+  materials: 'Materials',
+  textures: 'Textures',
+  geometry: 'Geometry',
+  rendering: 'Rendering (runtime)',
+};
+
+const SEVERITIES: StructuralIssue['severity'][] = ['low', 'medium', 'high'];
+
+const inputStyle: React.CSSProperties = {
+  background: 'var(--bg-card)', border: '1px solid var(--border)', borderRadius: 6,
+  padding: '3px 6px', color: 'var(--text-primary)', fontSize: '0.68rem', outline: 'none',
+};
+
+const buttonStyle: React.CSSProperties = {
+  flex: 1, padding: '6px 0', borderRadius: 6, border: '1px solid var(--border)', background: 'transparent',
+  color: 'var(--text-secondary)', fontSize: '0.68rem', fontWeight: 600, cursor: 'pointer', textAlign: 'center',
+};
+
+// Drops overrides equal to the rule's defaults, so saved and exported settings only list real changes
+function compact(rule: OptimizationRule, entry: RuleSettings, limits: BudgetLimits): RuleSettings | null {
+  const result: RuleSettings = {};
+  if (entry.enabled === false) result.enabled = false;
+  if (entry.severity && entry.severity !== rule.defaultSeverity) result.severity = entry.severity;
+  const options = Object.entries(entry.options ?? {}).filter(([key, value]) => {
+    const spec = rule.options[key];
+    return !spec || RuleRegistry.optionDefault(spec, limits) !== value;
+  });
+  if (options.length > 0) result.options = Object.fromEntries(options);
+  return Object.keys(result).length > 0 ? result : null;
+}
+
+// ──────────────────────────────────────────────
+// Rule row
+// ──────────────────────────────────────────────
+function RuleRow({
+  rule,
+  entry,
+  limits,
+  onChange,
+}: {
+  rule: OptimizationRule;
+  entry: RuleSettings;
+  limits: BudgetLimits;
+  onChange: (entry: RuleSettings) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const enabled = entry.enabled !== false;
+  const customized = !!compact(rule, entry, limits);
+
+  return (
+    <div style={{ borderBottom: '1px solid var(--border)', padding: '6px 0' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onChange({ ...entry, enabled: e.target.checked })}
+          title={enabled ? 'Disable rule' : 'Enable rule'}
+        />
+        <button
+          onClick={() => setExpanded(v => !v)}
+          title={rule.description}
+          style={{
+            flex: 1, display: 'flex', justifyContent: 'space-between', alignItems: 'center', background: 'none',
+            border: 'none', padding: 0, cursor: 'pointer', textAlign: 'left',
+            color: enabled ? 'var(--text-primary)' : 'var(--text-secondary)', fontSize: '0.72rem',
+          }}
+        >
+          <span>
+            {rule.title}
+            {customized && <span style={{ color: 'var(--accent)', marginLeft: 6 }}>•</span>}
+          </span>
+          <span style={{ opacity: 0.6, fontSize: '0.6rem' }}>{expanded ? '▲' : '▼'}</span>
+        </button>
+        <select
+          value={entry.severity ?? rule.defaultSeverity}
+          disabled={!enabled}
+          onChange={(e) => onChange({ ...entry, severity: e.target.value as StructuralIssue['severity'] })}
+          style={inputStyle}
+        >
+          {SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+        </select>
+      </div>
+
+      {expanded && (
+        <div style={{ padding: '6px 0 2px 22px', display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <div style={{ fontSize: '0.62rem', color: 'var(--text-secondary)', lineHeight: 1.4 }}>{rule.description}</div>
+          {Object.entries(rule.options).map(([key, spec]) => (
+            <label key={key} className="prop-row" style={{ alignItems: 'center' }}>
+              <span className="prop-key" title={spec.budget && entry.options?.[key] === undefined ? 'From the budget profile' : undefined}>
+                {spec.label}
+              </span>
+              <input
+                type="number"
+                value={entry.options?.[key] ?? RuleRegistry.optionDefault(spec, limits)}
+                min={spec.min}
+                step={spec.step}
+                disabled={!enabled}
+                onChange={(e) => {
+                  const value = e.target.valueAsNumber;
+                  if (!Number.isFinite(value)) return;
+                  onChange({ ...entry, options: { ...entry.options, [key]: value } });
+                }}
+                style={{ ...inputStyle, width: 80, textAlign: 'right' }}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ──────────────────────────────────────────────
+// Rule settings panel
+// ──────────────────────────────────────────────
+export function RuleSettingsPanel({ settings, onChange, limits }: RuleSettingsPanelProps) {
+  const [message, setMessage] = useState<{ text: string; warnings: string[] } | null>(null);
+  const rules = RuleRegistry.list();
+  const categories = (Object.keys(CATEGORY_LABELS) as RuleCategory[])
+    .map(category => ({ category, rules: rules.filter(rule => rule.category === category) }))
+    .filter(group => group.rules.length > 0);
+
+  const updateRule = (rule: OptimizationRule, entry: RuleSettings) => {
+    const next = { ...settings };
+    const compacted = compact(rule, entry, limits);
+    if (compacted) next[rule.id] = compacted;
+    else delete next[rule.id];
+    onChange(next);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(ProjectConfigFile.toBlob({ rules: settings }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = ProjectConfigFile.FILE_NAME;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { config, warnings } = ProjectConfigFile.parse(await file.text());
+      onChange(config.rules ?? {});
+      setMessage({ text: `Imported ${file.name}`, warnings });
+    } catch (err) {
+      setMessage({ text: `Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`, warnings: [] });
+    }
+  };
+
+  return (
+    <div style={{ marginTop: 16 }}>
+      <div className="section-header">Rules</div>
+      <div style={{ padding: '0 10px' }}>
+        {categories.map(({ category, rules: categoryRules }) => (
+          <div key={category} style={{ marginBottom: 8 }}>
+            <div style={{ fontSize: '0.6rem', fontWeight: 700, color: 'var(--text-secondary)', textTransform: 'uppercase', margin: '8px 0 2px' }}>
+              {CATEGORY_LABELS[category]}
+            </div>
+            {categoryRules.map(rule => (
+              <RuleRow
+                key={rule.id}
+                rule={rule}
+                entry={settings[rule.id] ?? {}}
+                limits={limits}
+                onChange={(entry) => updateRule(rule, entry)}
+              />
+            ))}
+          </div>
+        ))}
+
+        <div style={{ display: 'flex', gap: 6, marginTop: 8 }}>
+          <label style={buttonStyle} title={`Load rule settings from a ${ProjectConfigFile.FILE_NAME} file`}>
+            Import
+            <input type="file" accept=".json,application/json" style={{ display: 'none' }} onChange={handleImport} />
+          </label>
+          <button style={buttonStyle} onClick={handleExport} title="Save these settings to commit alongside the project">
+            Export
+          </button>
+          <button
+            style={buttonStyle}
+            onClick={() => {
+              onChange({});
+              setMessage(null);
+            }}
+            disabled={Object.keys(settings).length === 0}
+          >
+            Reset
+          </button>
+        </div>
+
+        {message && (
+          <div style={{ marginTop: 8, fontSize: '0.65rem', color: 'var(--text-secondary)', lineHeight: 1.4 }}>
+            <div>{message.text}</div>
+            {message.warnings.map(warning => (
+              <div key={warning} style={{ color: 'var(--warning)' }}>⚠ {warning}</div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
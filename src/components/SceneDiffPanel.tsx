@@ -0,0 +1,135 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { SceneDiff, SnapshotDelta } from '@/types/model';
+
+interface SceneDiffPanelProps {
+  diff: SceneDiff;
+}
+
+// Nodes listed per section before the rest collapses into "+N more"
+const NODE_LIST_LIMIT = 20;
+
+function fmtBytes(bytes: number) {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
+
+// ──────────────────────────────────────────────
+// Rows
+// ──────────────────────────────────────────────
+function DeltaRow({ label, delta, format }: { label: string; delta: SnapshotDelta; format: (n: number) => string }) {
+  const change = delta.after - delta.before;
+  // Every tracked metric is a cost, so going down is the improvement
+  const color = change < 0 ? 'var(--success)' : change > 0 ? 'var(--warning)' : 'var(--text-secondary)';
+  const percent = delta.before > 0 ? Math.round((change / delta.before) * 100) : null;
+
+  return (
+    <div className="prop-row">
+      <span className="prop-key">{label}</span>
+      <span className="font-mono" style={{ fontSize: '0.7rem', display: 'flex', gap: 6, alignItems: 'baseline' }}>
+        <span style={{ color: 'var(--text-secondary)' }}>{format(delta.before)}</span>
+        <span style={{ color: 'var(--text-secondary)' }}>→</span>
+        <span style={{ color: 'var(--text-primary)', fontWeight: 700 }}>{format(delta.after)}</span>
+        {change !== 0 && percent !== null && (
+          <span style={{ color, fontWeight: 700 }}>{change > 0 ? '+' : ''}{percent}%</span>
+        )}
+      </span>
+    </div>
+  );
+}
+
+function NodeList({
+  title,
+  sign,
+  color,
+  nodes,
+}: {
+  title: string;
+  sign: '+' | '−';
+  color: string;
+  nodes: SceneDiff['addedNodes'];
+}) {
+  const [expanded, setExpanded] = useState(false);
+  if (nodes.length === 0) return null;
+  const shown = nodes.slice(0, NODE_LIST_LIMIT);
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(v => !v)}
+        style={{
+          width: '100%', display: 'flex', justifyContent: 'space-between', background: 'none', border: 'none',
+          padding: '6px 0', cursor: 'pointer', color: 'var(--text-primary)', fontSize: '0.72rem',
+        }}
+      >
+        <span><span style={{ color, fontWeight: 800 }}>{sign}{nodes.length}</span> {title} nodes</span>
+        <span style={{ opacity: 0.6, fontSize: '0.6rem' }}>{expanded ? '▲' : '▼'}</span>
+      </button>
+      {expanded && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 2, paddingBottom: 6 }}>
+          {shown.map(node => (
+            <div
+              key={node.uuid}
+              className="font-mono"
+              title={node.path}
+              style={{
+                fontSize: '0.62rem', color: 'var(--text-secondary)',
+                overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap',
+              }}
+            >
+              <span style={{ color }}>{node.type}</span> {node.path}
+            </div>
+          ))}
+          {nodes.length > shown.length && (
+            <div style={{ fontSize: '0.62rem', color: 'var(--text-secondary)' }}>+{nodes.length - shown.length} more</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ──────────────────────────────────────────────
+// Scene diff panel
+// ──────────────────────────────────────────────
+export function SceneDiffPanel({ diff }: SceneDiffPanelProps) {
+  const fmtNum = (n: number) => n.toLocaleString();
+
+  return (
+    <div style={{ background: 'var(--bg-card)', border: '1px solid var(--border)', borderRadius: 10, padding: '10px 12px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: 6 }}>
+        <span style={{ fontSize: '0.65rem', fontWeight: 700, color: 'var(--text-secondary)', textTransform: 'uppercase' }}>
+          Before / After
+        </span>
+        <span style={{ fontSize: '0.6rem', color: 'var(--text-secondary)' }}>
+          {diff.from.label} → {diff.to.label}
+        </span>
+      </div>
+
+      <DeltaRow label="Draw calls" delta={diff.drawCalls} format={fmtNum} />
+      <DeltaRow label="Triangles" delta={diff.triangles} format={fmtNum} />
+      <DeltaRow label="Texture memory" delta={diff.textureMemory} format={fmtBytes} />
+      <DeltaRow label="Est. file size" delta={diff.estimatedFileSize} format={fmtBytes} />
+
+      {diff.materials.length > 0 && (
+        <>
+          <div style={{ fontSize: '0.6rem', fontWeight: 700, color: 'var(--text-secondary)', textTransform: 'uppercase', margin: '10px 0 2px' }}>
+            Draw calls per material
+          </div>
+          {diff.materials.map(mat => (
+            <DeltaRow key={mat.uuid} label={mat.name} delta={mat} format={fmtNum} />
+          ))}
+        </>
+      )}
+
+      <div style={{ marginTop: 8 }}>
+        <NodeList title="Added" sign="+" color="var(--success)" nodes={diff.addedNodes} />
+        <NodeList title="Removed" sign="−" color="var(--error)" nodes={diff.removedNodes} />
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ interface SceneExplorerPanelProps {
   onToggleVisibility: (uuid: string, visible: boolean) => void;
   onFocus: (uuid: string) => void;
   onIsolate: (uuid: string) => void;
+  onExportNode?: (uuid: string) => void;
 }
 
 export function SceneExplorerPanel({
@@ -19,6 +20,7 @@ export function SceneExplorerPanel({
   onToggleVisibility,
   onFocus,
   onIsolate,
+  onExportNode,
 }: SceneExplorerPanelProps) {
   const [search, setSearch] = useState('');
 
@@ -55,6 +57,7 @@ export function SceneExplorerPanel({
           onToggleVisibility={onToggleVisibility}
           onFocus={onFocus}
           onIsolate={onIsolate}
+          onExportNode={onExportNode}
           search={search}
         />
       </div>
@@ -62,7 +65,7 @@ export function SceneExplorerPanel({
   );
 }
 
-function TreeNode({ node, depth, selectedUuid, onSelect, onToggleVisibility, onFocus, onIsolate, search }: any) {
+function TreeNode({ node, depth, selectedUuid, onSelect, onToggleVisibility, onFocus, onIsolate, onExportNode, search }: any) {
   const [expanded, setExpanded] = useState(depth < 2); // Auto-expand top levels
   const isSelected = selectedUuid === node.uuid;
   const hasChildren = node.children && node.children.length > 0;
@@ -159,6 +162,18 @@ function TreeNode({ node, depth, selectedUuid, onSelect, onToggleVisibility, onF
               🎯
             </button>
           )}
+
+          {depth > 0 && onExportNode && (
+            <button 
+              title="Export this node"
+              onClick={(e) => { e.stopPropagation(); onExportNode(node.uuid); }}
+              style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '0.75rem', padding: 0, opacity: 0.5 }}
+              onMouseEnter={e => e.currentTarget.style.opacity = '1'}
+              onMouseLeave={e => e.currentTarget.style.opacity = '0.5'}
+            >
+              📤
+            </button>
+          )}
         </div>
       </div>
       
@@ -174,6 +189,7 @@ function TreeNode({ node, depth, selectedUuid, onSelect, onToggleVisibility, onF
               onToggleVisibility={onToggleVisibility}
               onFocus={onFocus}
               onIsolate={onIsolate}
+              onExportNode={onExportNode}
               search={search}
             />
           ))}
@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { ScoreLineItem } from '@/types/model';
+
+interface ScoreBreakdownPanelProps {
+  score: number;
+  breakdown: ScoreLineItem[];
+  onHighlightIssue?: (issueId: string | null) => void;
+}
+
+// Lowest score the status badge reads "Highly Optimized" at
+const DEFAULT_TARGET = 86;
+
+function fmtValue(value: number) {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+}
+
+// ──────────────────────────────────────────────
+// Waterfall row
+// ──────────────────────────────────────────────
+function WaterfallBar({ from, to, color }: { from: number; to: number; color: string }) {
+  const left = Math.max(0, Math.min(from, to));
+  const right = Math.max(0, Math.max(from, to));
+  return (
+    <div style={{ position: 'relative', height: 6, background: 'var(--border)', borderRadius: 3 }}>
+      <div style={{
+        position: 'absolute', left: `${left}%`, width: `${Math.max(right - left, 0.5)}%`,
+        top: 0, bottom: 0, borderRadius: 3, background: color,
+      }} />
+    </div>
+  );
+}
+
+// ──────────────────────────────────────────────
+// Score breakdown panel
+// ──────────────────────────────────────────────
+export function ScoreBreakdownPanel({ score, breakdown, onHighlightIssue }: ScoreBreakdownPanelProps) {
+  const [target, setTarget] = useState(DEFAULT_TARGET);
+
+  // Largest deductions first, so the items to fix for a target score are the top of the list
+  const items = useMemo(() => [...breakdown].sort((a, b) => b.weight - a.weight), [breakdown]);
+
+  // Deductions can add up past 100; the score is clamped at 0 but fixes are counted from the raw total
+  const rawScore = 100 - items.reduce((sum, item) => sum + item.weight, 0);
+  const toFix = useMemo(() => {
+    const ids = new Set<string>();
+    let projected = rawScore;
+    for (const item of items) {
+      if (projected >= target) break;
+      projected += item.weight;
+      ids.add(item.issueId);
+    }
+    return ids;
+  }, [items, rawScore, target]);
+
+  let running = 100;
+
+  return (
+    <div style={{
+      background: 'var(--bg-card)', border: '1px solid var(--border)', borderRadius: 12,
+      padding: '12px 14px', marginBottom: 20,
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 }}>
+        <span style={{ fontSize: '0.65rem', fontWeight: 800, color: 'var(--text-secondary)', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+          Score Breakdown
+        </span>
+        <label style={{ fontSize: '0.62rem', color: 'var(--text-secondary)', display: 'flex', alignItems: 'center', gap: 4 }}>
+          Target
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={target}
+            onChange={(e) => {
+              const value = e.target.valueAsNumber;
+              if (Number.isFinite(value)) setTarget(Math.max(0, Math.min(100, value)));
+            }}
+            style={{
+              width: 44, background: 'var(--bg-secondary)', border: '1px solid var(--border)', borderRadius: 4,
+              padding: '2px 4px', color: 'var(--text-primary)', fontSize: '0.65rem', textAlign: 'right', outline: 'none',
+            }}
+          />
+        </label>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        <div>
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.68rem', marginBottom: 3 }}>
+            <span style={{ color: 'var(--text-secondary)' }}>Starting score</span>
+            <span className="font-mono" style={{ fontWeight: 700 }}>100</span>
+          </div>
+          <WaterfallBar from={0} to={100} color="var(--success)" />
+        </div>
+
+        {items.map((item) => {
+          const from = running;
+          running -= item.weight;
+          const highlighted = toFix.has(item.issueId);
+          return (
+            <div
+              key={item.issueId}
+              onMouseEnter={() => onHighlightIssue?.(item.issueId)}
+              onMouseLeave={() => onHighlightIssue?.(null)}
+              title={`${item.ruleId}: measured ${fmtValue(item.measured)} ${item.unit}, threshold ${fmtValue(item.threshold)} ${item.unit}`}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8, fontSize: '0.68rem', marginBottom: 1 }}>
+                <span style={{
+                  color: highlighted ? 'var(--text-primary)' : 'var(--text-secondary)', fontWeight: highlighted ? 700 : 400,
+                  overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap',
+                }}>
+                  {item.title}
+                </span>
+                <span className="font-mono" style={{ color: 'var(--error)', fontWeight: 700, flexShrink: 0 }}>−{fmtValue(item.weight)}</span>
+              </div>
+              <div className="font-mono" style={{ fontSize: '0.6rem', color: 'var(--text-secondary)', marginBottom: 3 }}>
+                {fmtValue(item.measured)} {item.unit} · threshold {fmtValue(item.threshold)}
+                {item.source === 'runtime' && ' · runtime'}
+              </div>
+              <WaterfallBar from={from} to={running} color={highlighted ? 'var(--warning)' : 'var(--error)'} />
+            </div>
+          );
+        })}
+
+        <div>
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.68rem', marginBottom: 3 }}>
+            <span style={{ color: 'var(--text-secondary)' }}>
+              Score{rawScore < 0 ? ' (floored at 0)' : ''}
+            </span>
+            <span className="font-mono" style={{ fontWeight: 700 }}>{score}</span>
+          </div>
+          <WaterfallBar from={0} to={score} color="var(--accent)" />
+        </div>
+      </div>
+
+      <div style={{ marginTop: 10, fontSize: '0.65rem', color: 'var(--text-secondary)', lineHeight: 1.4 }}>
+        {score >= target
+          ? `The score already meets the target of ${target}.`
+          : `Fix the ${toFix.size} highlighted item${toFix.size === 1 ? '' : 's'} to reach ${target}.`}
+      </div>
+    </div>
+  );
+}
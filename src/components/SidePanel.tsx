@@ -4,13 +4,19 @@ import React, { useMemo, useState, useCallback, useEffect } from 'react';
 import * as THREE from 'three';
 import type {
   MeshInfo, MaterialInfo, ModelStats, PerformanceStats,
-  PerformanceWarning, SceneAnalysisReport, StructuralIssue,
+  SceneAnalysisReport, StructuralIssue,
   LightingConfig, LightingPresetId, TextureUsageStats, OptimizationState, OptimizationEvent,
-  SceneNode
+  SceneNode, SceneDiff, RuleSettingsMap, BudgetProfile
 } from '@/types/model';
 import { TextureAnalyzer } from '@/core/debug/TextureAnalyzer';
 import { GPUCostAnalyzer } from '@/core/debug/GPUCostAnalyzer';
+import { BudgetProfiles } from '@/core/analysis/BudgetProfiles';
+import { OptimizationEngine } from '@/core/analysis/OptimizationEngine';
 import { SceneExplorerPanel } from './SceneExplorerPanel';
+import { SceneDiffPanel } from './SceneDiffPanel';
+import { RuleSettingsPanel } from './RuleSettingsPanel';
+import { BudgetProfilePanel } from './BudgetProfilePanel';
+import { ScoreBreakdownPanel } from './ScoreBreakdownPanel';
 
 // ──────────────────────────────────────────────
 // Helpers
@@ -295,6 +301,16 @@ function MaterialBlock({
         </div>
       )}
 
+      {mat.specular !== undefined && (
+        <div className="prop-row">
+          <span className="prop-key">Specular</span>
+          <span className="prop-val">
+            <ColorDot hex={mat.specular} />
+            {mat.shininess !== undefined && ` · shininess ${mat.shininess}`}
+          </span>
+        </div>
+      )}
+
       {mat.metalness !== undefined && (
         <div className="prop-row">
           <span className="prop-key">Metalness</span>
@@ -339,6 +355,8 @@ function MaterialBlock({
       {mat.aoMap !== undefined && <TextureRow label="AO Map" tex={mat.aoMap} />}
       {mat.alphaMap !== undefined && <TextureRow label="Alpha Map" tex={mat.alphaMap} />}
       {mat.envMap !== undefined && <TextureRow label="Env Map" tex={mat.envMap} />}
+      {mat.specularMap !== undefined && <TextureRow label="Specular Map" tex={mat.specularMap} />}
+      {mat.bumpMap !== undefined && <TextureRow label="Bump Map" tex={mat.bumpMap} />}
     </div>
   );
 }
@@ -386,6 +404,28 @@ function StatsPanel({ stats, scene }: { stats: ModelStats; scene: THREE.Object3D
             <span className="prop-val"><span className="tag tag-geo">{stats.fileType}</span></span>
           </div>
         )}
+        {stats.compression && (
+          <div className="prop-row">
+            <span className="prop-key">Compression</span>
+            <span className="prop-val">
+              {stats.compression.length > 0
+                ? stats.compression.map(ext => <span key={ext} className="tag tag-geo" style={{ marginLeft: 3 }}>{ext.replace(/^(KHR|EXT)_/, '')}</span>)
+                : 'None'}
+            </span>
+          </div>
+        )}
+        {stats.unitScale !== undefined && (
+          <div className="prop-row">
+            <span className="prop-key">Unit Scale</span>
+            <span className="prop-val">{stats.unitScale} cm/unit</span>
+          </div>
+        )}
+        {stats.embeddedTextures !== undefined && (
+          <div className="prop-row">
+            <span className="prop-key">Textures</span>
+            <span className="prop-val">{stats.embeddedTextures} embedded · {stats.externalTextures ?? 0} external</span>
+          </div>
+        )}
         {stats.hasAnimations && (
           <div className="prop-row">
             <span className="prop-key">Animations</span>
@@ -456,18 +496,12 @@ function MetricRow({ label, value, sub, color }: { label: string; value: string
   );
 }
 
-function PerformancePanel({ stats }: { stats: PerformanceStats }) {
-  const warnings = useMemo(() => {
-    const list: PerformanceWarning[] = [];
-    if (stats.fps < 30) list.push({ level: 'heavy', message: 'Low frame rate detected' });
-    if (stats.triangles > 100000) list.push({ level: 'moderate', message: 'High triangle count (>100k)' });
-    if (stats.drawCalls > 25) list.push({ level: 'moderate', message: 'High draw call count (>25)' });
-    if (stats.textures > 10) list.push({ level: 'moderate', message: 'Many individual textures (>10)' });
-    if (stats.memory.geometries + stats.memory.textures > 100 * 1024 * 1024) {
-      list.push({ level: 'heavy', message: 'VRAM usage > 100MB' });
-    }
-    return list;
-  }, [stats]);
+function PerformancePanel({ stats, analysis }: { stats: PerformanceStats; analysis: SceneAnalysisReport | null }) {
+  // Runtime issues come from the same analysis as the structural ones, scored against the active profile
+  const runtimeIssues = useMemo(
+    () => (analysis?.issues ?? []).filter(issue => issue.source === 'runtime'),
+    [analysis],
+  );
 
   const fpsColor = stats.fps >= 50 ? 'var(--success)' : stats.fps >= 30 ? 'var(--warning)' : 'var(--error)';
 
@@ -505,31 +539,37 @@ function PerformancePanel({ stats }: { stats: PerformanceStats }) {
         <MetricRow label="Active Geometries" value={stats.geometries} />
       </Accordion>
 
-      {/* Warnings */}
-      {warnings.length > 0 && (
-        <div style={{ marginTop: 15 }}>
-          <div style={{ fontSize: '0.65rem', fontWeight: 700, color: 'var(--text-secondary)', textTransform: 'uppercase', marginBottom: 6, paddingLeft: 4 }}>
-            Performance Warnings
-          </div>
-          {warnings.map((w, i) => (
-            <div key={i} style={{
-              background: w.level === 'heavy' ? 'rgba(239,68,68,0.1)' : 'rgba(245,158,11,0.1)',
-              border: `1px solid ${w.level === 'heavy' ? 'rgba(239,68,68,0.3)' : 'rgba(245,158,11,0.3)'}`,
-              borderRadius: 8,
-              padding: '6px 10px',
-              marginBottom: 5,
-              display: 'flex',
-              alignItems: 'center',
-              gap: 8,
-              fontSize: '0.72rem',
-              color: w.level === 'heavy' ? '#fca5a5' : '#fcd34d'
-            }}>
-              <span>{w.level === 'heavy' ? '🔴' : '🟡'}</span>
-              <span>{w.message}</span>
-            </div>
-          ))}
+      {/* Runtime Issues */}
+      <div style={{ marginTop: 15 }}>
+        <div style={{ fontSize: '0.65rem', fontWeight: 700, color: 'var(--text-secondary)', textTransform: 'uppercase', marginBottom: 6, paddingLeft: 4 }}>
+          Runtime Issues
         </div>
-      )}
+        {!analysis?.runtime ? (
+          <div style={{ fontSize: '0.7rem', color: 'var(--text-secondary)', paddingLeft: 4 }}>
+            Runtime checks run once {OptimizationEngine.MIN_RUNTIME_FRAMES} frames have been sampled…
+          </div>
+        ) : runtimeIssues.length === 0 ? (
+          <div style={{ fontSize: '0.7rem', color: 'var(--success)', paddingLeft: 4 }}>
+            No runtime issues over {analysis.runtime.frames} frames ({analysis.runtime.fps} fps average).
+          </div>
+        ) : runtimeIssues.map(issue => (
+          <div key={issue.id} title={issue.description} style={{
+            background: issue.severity === 'high' ? 'rgba(239,68,68,0.1)' : 'rgba(245,158,11,0.1)',
+            border: `1px solid ${issue.severity === 'high' ? 'rgba(239,68,68,0.3)' : 'rgba(245,158,11,0.3)'}`,
+            borderRadius: 8,
+            padding: '6px 10px',
+            marginBottom: 5,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            fontSize: '0.72rem',
+            color: issue.severity === 'high' ? '#fca5a5' : '#fcd34d'
+          }}>
+            <span>{issue.severity === 'high' ? '🔴' : '🟡'}</span>
+            <span>{issue.title}</span>
+          </div>
+        ))}
+      </div>
     </div>
   );
 }
@@ -589,6 +629,7 @@ export function AnalysisPanel({
   const statusLabel = assessment.status === 'optimized' ? 'Highly Optimized' : assessment.status === 'improvable' ? 'Improvable Structure' : 'Structural Debt Detected';
 
   const gpuReport = scene ? GPUCostAnalyzer.getSceneGPUReport(scene) : null;
+  const exceededBudgets = assessment.budgets.filter(check => check.exceeded);
 
   return (
     <div style={{ padding: 10 }}>
@@ -608,8 +649,26 @@ export function AnalysisPanel({
         }}>
           {statusLabel}
         </div>
+        <div style={{ marginTop: 10, fontSize: '0.65rem', color: 'var(--text-secondary)' }}>
+          Scored for {assessment.profile.name}
+          {exceededBudgets.length > 0 && (
+            <span style={{ color: 'var(--error)' }}>
+              {' · over budget: '}
+              {exceededBudgets.map(check => `${check.label} +${Math.round(check.overBy * 100)}%`).join(', ')}
+            </span>
+          )}
+        </div>
       </div>
 
+      {/* Score Breakdown */}
+      {assessment.breakdown.length > 0 && (
+        <ScoreBreakdownPanel
+          score={assessment.score}
+          breakdown={assessment.breakdown}
+          onHighlightIssue={(id) => onHighlightMeshes?.(assessment.issues.find(issue => issue.id === id)?.affectedUuids ?? [])}
+        />
+      )}
+
       {/* GPU Rendering Risk */}
       {gpuReport && (
         <div style={{
@@ -704,6 +763,17 @@ export function AnalysisPanel({
                   <span style={{ fontSize: '0.75rem', fontWeight: 700, flex: 1, color: isApplied ? 'var(--success)' : 'white' }}>
                     {isApplied && '✓ '}{issue.title}
                   </span>
+                  {issue.source === 'runtime' && (
+                    <span
+                      title="Measured while rendering on this device"
+                      style={{
+                        fontSize: '0.55rem', fontWeight: 800, textTransform: 'uppercase', padding: '1px 5px',
+                        borderRadius: 4, border: '1px solid var(--border)', color: 'var(--text-secondary)'
+                      }}
+                    >
+                      Runtime
+                    </span>
+                  )}
                   <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
                     {isApplied ? (
                       <span style={{ fontSize: '0.6rem', fontWeight: 800, color: 'var(--success)', letterSpacing: '0.05em' }}>APPLIED</span>
@@ -808,7 +878,7 @@ export function AnalysisPanel({
 // History Panel
 // ──────────────────────────────────────────────
 
-function HistoryPanel({ history }: { history: OptimizationEvent[] }) {
+function HistoryPanel({ history, diff }: { history: OptimizationEvent[]; diff: SceneDiff | null }) {
   if (history.length === 0) {
     return (
       <div style={{
@@ -823,6 +893,7 @@ function HistoryPanel({ history }: { history: OptimizationEvent[] }) {
 
   return (
     <div style={{ padding: 10, display: 'flex', flexDirection: 'column', gap: 12 }}>
+      {diff && <SceneDiffPanel diff={diff} />}
       <div style={{ fontSize: '0.65rem', fontWeight: 700, color: 'var(--text-secondary)', textTransform: 'uppercase', marginBottom: 4, paddingLeft: 4 }}>
         Optimization Timeline
       </div>
@@ -1422,6 +1493,7 @@ interface SidePanelProps {
   onOptimize?: (issue: StructuralIssue) => void;
   onDismiss?: (issue: StructuralIssue) => void;
   optimizationHistory?: OptimizationEvent[];
+  sceneDiff?: SceneDiff | null;
   lightingConfig: LightingConfig;
   debugMode: DebugRenderMode;
   onDebugModeChange: (m: DebugRenderMode) => void;
@@ -1430,6 +1502,13 @@ interface SidePanelProps {
   onToggleVisibility: (uuid: string, visible: boolean) => void;
   onFocus: (uuid: string) => void;
   onIsolate: (uuid: string) => void;
+  onExportNode?: (uuid: string) => void;
+  ruleSettings?: RuleSettingsMap;
+  onRuleSettingsChange?: (settings: RuleSettingsMap) => void;
+  budgetProfile?: BudgetProfile;
+  customBudgetProfiles?: BudgetProfile[];
+  onBudgetProfileSelect?: (id: string) => void;
+  onCustomBudgetProfilesChange?: (profiles: BudgetProfile[]) => void;
   clips: AnimationClipInfo[];
   playbackConfig: PlaybackConfig;
   onPlaybackConfigChange: (config: Partial<PlaybackConfig>) => void;
@@ -1452,6 +1531,7 @@ export default function SidePanel({
   onOptimize,
   onDismiss,
   optimizationHistory = [],
+  sceneDiff = null,
   debugMode,
   onDebugModeChange,
   scene,
@@ -1459,6 +1539,13 @@ export default function SidePanel({
   onToggleVisibility,
   onFocus,
   onIsolate,
+  onExportNode,
+  ruleSettings = {},
+  onRuleSettingsChange,
+  budgetProfile,
+  customBudgetProfiles = [],
+  onBudgetProfileSelect,
+  onCustomBudgetProfilesChange,
 }: SidePanelProps) {
   const [activeTab, setActiveTab] = useState<'info' | 'performance' | 'analysis' | 'lighting' | 'history' | 'debug' | 'scene' | 'animation'>('info');
   const [search, setSearch] = useState('');
@@ -1630,6 +1717,7 @@ export default function SidePanel({
             onToggleVisibility={onToggleVisibility}
             onFocus={onFocus}
             onIsolate={onIsolate}
+            onExportNode={onExportNode}
           />
         )}
 
@@ -1708,7 +1796,7 @@ export default function SidePanel({
         {/* PERFORMANCE TAB */}
         {activeTab === 'performance' && (
           <div>
-            {performanceStats ? <PerformancePanel stats={performanceStats} /> : (
+            {performanceStats ? <PerformancePanel stats={performanceStats} analysis={sceneAnalysis} /> : (
               <div style={{ padding: 30, color: 'var(--text-secondary)', fontSize: '0.82rem', textAlign: 'center', lineHeight: 1.6 }}>
                 <svg width="36" height="36" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5"
                   style={{ margin: '0 auto 10px', display: 'block', opacity: 0.35 }}>
@@ -1723,6 +1811,15 @@ export default function SidePanel({
         {/* ANALYSIS TAB */}
         {activeTab === 'analysis' && (
           <>
+            {budgetProfile && onBudgetProfileSelect && onCustomBudgetProfilesChange && (
+              <BudgetProfilePanel
+                profile={budgetProfile}
+                customProfiles={customBudgetProfiles}
+                budgets={sceneAnalysis?.profile.id === budgetProfile.id ? sceneAnalysis.budgets : []}
+                onSelect={onBudgetProfileSelect}
+                onCustomProfilesChange={onCustomBudgetProfilesChange}
+              />
+            )}
             {sceneAnalysis ? (
               <AnalysisPanel
                 assessment={sceneAnalysis}
@@ -1736,12 +1833,19 @@ export default function SidePanel({
                 Structural analysis initializing…
                 </div>
             )}
+            {onRuleSettingsChange && (
+              <RuleSettingsPanel
+                settings={ruleSettings}
+                onChange={onRuleSettingsChange}
+                limits={(budgetProfile ?? BudgetProfiles.default).limits}
+              />
+            )}
           </>
         )}
 
         {/* HISTORY TAB */}
         {activeTab === 'history' && (
-          <HistoryPanel history={optimizationHistory} />
+          <HistoryPanel history={optimizationHistory} diff={sceneDiff} />
         )}
 
         {/* LIGHTING TAB */}
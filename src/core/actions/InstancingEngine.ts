@@ -9,9 +9,17 @@ export class InstancingEngine {
    * Converts a list of meshes into a single InstancedMesh.
    * @param scene The root scene object.
    * @param meshUuids Array of UUIDs for the meshes to be converted.
+   * @param geometryUuid Geometry all instances draw, when the meshes hold separate copies of it.
+   * @param geometryOffsets Per mesh, the rigid transform from that geometry to the mesh's own copy
+   * (column-major), for copies whose vertices were moved or rotated when exported.
    * @returns The created InstancedMesh or null if unsuccessful.
    */
-  static convertToInstanced(scene: THREE.Object3D, meshUuids: string[]): THREE.InstancedMesh | null {
+  static convertToInstanced(
+    scene: THREE.Object3D,
+    meshUuids: string[],
+    geometryUuid?: string,
+    geometryOffsets: Record<string, number[]> = {}
+  ): THREE.InstancedMesh | null {
     if (meshUuids.length < 2) return null;
 
     const meshes: THREE.Mesh[] = [];
@@ -23,8 +31,8 @@ export class InstancingEngine {
 
     if (meshes.length === 0) return null;
 
-    // Use the first mesh as the template for geometry and material
-    const firstMesh = meshes[0];
+    // Use the mesh holding the shared geometry (or the first mesh) as the template for geometry and material
+    const firstMesh = meshes.find(mesh => mesh.geometry.uuid === geometryUuid) ?? meshes[0];
     const geometry = firstMesh.geometry.clone(); // Clone to avoid side effects if original used elsewhere
     const material = firstMesh.material;
     const parent = firstMesh.parent;
@@ -46,11 +54,16 @@ export class InstancingEngine {
     const worldToLocal = parent.matrixWorld.clone().invert();
 
     const matrix = new THREE.Matrix4();
+    const offset = new THREE.Matrix4();
     meshes.forEach((mesh, i) => {
       mesh.updateWorldMatrix(true, false);
       
       // Calculate local matrix relative to the new InstancedMesh's parent
       matrix.copy(worldToLocal).multiply(mesh.matrixWorld);
+
+      // Place the shared geometry where this mesh's own copy of it sits
+      const elements = geometryOffsets[mesh.uuid];
+      if (elements?.length === 16) matrix.multiply(offset.fromArray(elements));
       
       instancedMesh.setMatrixAt(i, matrix);
     });
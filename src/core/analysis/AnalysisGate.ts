@@ -0,0 +1,54 @@
+import type { SceneAnalysisReport, StructuralIssue } from '@/types/model';
+
+export type IssueSeverity = StructuralIssue['severity'];
+
+// Limits a report is checked against; limits left out are not checked
+export interface AnalysisThresholds {
+  minScore?: number;
+  // Most issues allowed at each severity
+  maxIssues: Partial<Record<IssueSeverity, number>>;
+}
+
+export interface ThresholdViolation {
+  threshold: 'minScore' | IssueSeverity;
+  limit: number;
+  actual: number;
+  message: string;
+}
+
+export const ISSUE_SEVERITIES: IssueSeverity[] = ['high', 'medium', 'low'];
+
+/**
+ * AnalysisGate
+ * Pass/fail check of an analysis report against configured limits, for CI pipelines.
+ */
+export class AnalysisGate {
+  static check(report: SceneAnalysisReport, thresholds: AnalysisThresholds): ThresholdViolation[] {
+    const violations: ThresholdViolation[] = [];
+
+    if (thresholds.minScore !== undefined && report.score < thresholds.minScore) {
+      violations.push({
+        threshold: 'minScore',
+        limit: thresholds.minScore,
+        actual: report.score,
+        message: `Score ${report.score} is below the minimum of ${thresholds.minScore}`,
+      });
+    }
+
+    ISSUE_SEVERITIES.forEach((severity) => {
+      const limit = thresholds.maxIssues[severity];
+      if (limit === undefined) return;
+      const actual = report.issues.filter(issue => issue.severity === severity).length;
+      if (actual > limit) {
+        violations.push({
+          threshold: severity,
+          limit,
+          actual,
+          message: `${actual} ${severity}-severity issue${actual === 1 ? '' : 's'} (at most ${limit} allowed)`,
+        });
+      }
+    });
+
+    return violations;
+  }
+}
@@ -0,0 +1,190 @@
+import type { RawSceneData } from './SceneAnalyzer';
+import type { BudgetCheck, BudgetKey, BudgetLimits, BudgetProfile } from '@/types/model';
+
+interface BudgetMetric {
+  label: string;
+  unit: string;
+  measure(data: RawSceneData): number;
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+
+// Budgets that are measured over the whole scene. The other limits are cutoffs individual rules read
+// (lodTriangles, materials, vertexDensity, smallMeshTextureSize), and targetFps is checked by the
+// runtime frame rate rule once frames have been sampled.
+const METRICS: Partial<Record<BudgetKey, BudgetMetric>> = {
+  triangles: {
+    label: 'Triangles',
+    unit: 'triangles',
+    measure: data => data.meshDetails.reduce((sum, mesh) => sum + mesh.triangleCount, 0),
+  },
+  drawCalls: {
+    label: 'Draw calls',
+    unit: 'draw calls',
+    measure: data => data.meshCount,
+  },
+  textureSize: {
+    label: 'Texture size',
+    unit: 'px',
+    measure: data => data.textures.reduce((max, tex) => Math.max(max, tex.width, tex.height), 0),
+  },
+  vramMB: {
+    label: 'VRAM',
+    unit: 'MB',
+    measure: (data) => {
+      const textures = data.textures.reduce((sum, tex) => sum + tex.width * tex.height * 4, 0);
+      const geometry = Array.from(data.geometries.values()).reduce((sum, g) => sum + g.vertexCount * 12, 0);
+      return Math.round(((textures + geometry) / BYTES_PER_MB) * 10) / 10;
+    },
+  },
+};
+
+const BUILTIN_PROFILES: BudgetProfile[] = [
+  {
+    id: 'mobile_web',
+    name: 'Mobile web',
+    description: 'Phones and tablets in the browser, on integrated GPUs with little memory.',
+    builtin: true,
+    limits: {
+      triangles: 100_000, drawCalls: 25, textureSize: 2048, vramMB: 150, lodTriangles: 50_000, targetFps: 30,
+      materials: 10, vertexDensity: 50_000, smallMeshTextureSize: 4096,
+    },
+  },
+  {
+    id: 'desktop_web',
+    name: 'Desktop web',
+    description: 'Laptops and desktops in the browser, such as product configurators.',
+    builtin: true,
+    limits: {
+      triangles: 500_000, drawCalls: 100, textureSize: 4096, vramMB: 512, lodTriangles: 100_000, targetFps: 60,
+      materials: 25, vertexDensity: 100_000, smallMeshTextureSize: 4096,
+    },
+  },
+  {
+    id: 'standalone_vr',
+    name: 'Standalone VR',
+    description: 'Untethered headsets such as Quest, rendering every frame twice at a high refresh rate.',
+    builtin: true,
+    limits: {
+      triangles: 300_000, drawCalls: 80, textureSize: 2048, vramMB: 256, lodTriangles: 20_000, targetFps: 72,
+      materials: 15, vertexDensity: 50_000, smallMeshTextureSize: 2048,
+    },
+  },
+  {
+    id: 'high_end',
+    name: 'High-end',
+    description: 'Dedicated desktop GPUs, for offline renders and native applications.',
+    builtin: true,
+    limits: {
+      triangles: 2_000_000, drawCalls: 500, textureSize: 8192, vramMB: 2048, lodTriangles: 250_000, targetFps: 60,
+      materials: 60, vertexDensity: 250_000, smallMeshTextureSize: 8192,
+    },
+  },
+];
+
+export const BUDGET_LABELS: Record<BudgetKey, string> = {
+  triangles: 'Triangles',
+  drawCalls: 'Draw calls',
+  textureSize: 'Texture size (px)',
+  vramMB: 'VRAM (MB)',
+  lodTriangles: 'LOD above (triangles per mesh)',
+  targetFps: 'Target frame rate (fps)',
+  materials: 'Unique materials',
+  vertexDensity: 'Vertex density (per unit volume)',
+  smallMeshTextureSize: 'Texture size on small meshes (px)',
+};
+
+/**
+ * BudgetProfiles
+ * Target platforms a scene is scored against. Rules read their limits from the active profile,
+ * and scene-wide budgets are measured here so reports can show how far over each one the scene is.
+ */
+export class BudgetProfiles {
+  // Its limits are the thresholds analysis used before profiles existed
+  static readonly DEFAULT_ID = 'mobile_web';
+  static readonly BUILTIN = BUILTIN_PROFILES;
+
+  static get default(): BudgetProfile {
+    return BUILTIN_PROFILES.find(profile => profile.id === this.DEFAULT_ID) ?? BUILTIN_PROFILES[0];
+  }
+
+  /**
+   * Finds a profile among the built-in and the given custom ones, falling back to the default.
+   */
+  static find(id: string | null | undefined, custom: BudgetProfile[] = []): BudgetProfile {
+    return [...BUILTIN_PROFILES, ...custom].find(profile => profile.id === id) ?? this.default;
+  }
+
+  /**
+   * Measures one scene-wide budget. Returns null for limits that aren't measured over the scene.
+   */
+  static measure(key: BudgetKey, data: RawSceneData, limits: BudgetLimits): BudgetCheck | null {
+    const metric = METRICS[key];
+    if (!metric) return null;
+    const actual = metric.measure(data);
+    const limit = limits[key];
+    const exceeded = actual > limit;
+    return {
+      key,
+      label: metric.label,
+      unit: metric.unit,
+      limit,
+      actual,
+      exceeded,
+      overBy: exceeded && limit > 0 ? (actual - limit) / limit : 0,
+    };
+  }
+
+  static check(data: RawSceneData, limits: BudgetLimits): BudgetCheck[] {
+    return (Object.keys(METRICS) as BudgetKey[])
+      .map(key => this.measure(key, data, limits))
+      .filter((check): check is BudgetCheck => !!check);
+  }
+
+  /**
+   * Score penalty for an exceeded budget: 5 points just over it, rising to 20 at twice the limit.
+   */
+  static penalty(check: BudgetCheck): number {
+    return check.exceeded ? Math.round(5 + 15 * Math.min(1, check.overBy)) : 0;
+  }
+
+  /**
+   * Keeps the well-formed custom profiles from untrusted data (local storage).
+   */
+  static sanitize(value: unknown): BudgetProfile[] {
+    if (!Array.isArray(value)) return [];
+    const ids = new Set(BUILTIN_PROFILES.map(profile => profile.id));
+
+    return value.flatMap((entry) => {
+      if (!entry || typeof entry !== 'object') return [];
+      const { id, name, description, limits } = entry as Record<string, unknown>;
+      if (typeof id !== 'string' || ids.has(id) || typeof name !== 'string' || !limits || typeof limits !== 'object') return [];
+
+      const defaults = this.default.limits;
+      const limit = (key: BudgetKey) => {
+        const value = (limits as Record<string, unknown>)[key];
+        return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : defaults[key];
+      };
+      const sanitized: BudgetLimits = {
+        triangles: limit('triangles'),
+        drawCalls: limit('drawCalls'),
+        textureSize: limit('textureSize'),
+        vramMB: limit('vramMB'),
+        lodTriangles: limit('lodTriangles'),
+        targetFps: limit('targetFps'),
+        materials: limit('materials'),
+        vertexDensity: limit('vertexDensity'),
+        smallMeshTextureSize: limit('smallMeshTextureSize'),
+      };
+
+      ids.add(id);
+      return [{
+        id,
+        name,
+        description: typeof description === 'string' ? description : '',
+        builtin: false,
+        limits: sanitized,
+      }];
+    });
+  }
+}
@@ -0,0 +1,238 @@
+import * as THREE from 'three';
+
+export interface GeometryFingerprintResult {
+  // Equal for geometries that can be duplicates; compare() decides whether they are
+  key: string;
+  // Root mean square distance of the positions from their centroid; unchanged by moving or rotating a copy
+  radius: number;
+  // Largest absolute position component; float32 rounding of the stored values grows with it
+  extent: number;
+  // Rigid transform taking the positions into a pose fixed by the data; null for degenerate (collinear) geometry
+  toCanonical: THREE.Matrix4 | null;
+}
+
+// Attributes whose xyz components are directions, rotated (not translated) along with positions
+const DIRECTION_ATTRIBUTES = ['normal', 'tangent'];
+
+const IDENTITY = new THREE.Matrix4();
+
+// Allowance per unit of extent for float32 rounding of both copies and of the transform between them
+const FLOAT32_NOISE = 4 * 2 ** -23;
+
+const cache = new WeakMap<THREE.BufferGeometry, { version: string; result: GeometryFingerprintResult }>();
+
+/**
+ * 53-bit streaming hash (cyrb53) over 32-bit integers.
+ */
+class Hasher {
+  private h1 = 0xdeadbeef;
+  private h2 = 0x41c6ce57;
+
+  int(value: number) {
+    this.h1 = Math.imul(this.h1 ^ value, 2654435761);
+    this.h2 = Math.imul(this.h2 ^ value, 1597334677);
+  }
+
+  digest(): string {
+    let { h1, h2 } = this;
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+  }
+}
+
+/**
+ * GeometryFingerprint
+ * Finds duplicate geometry across separate buffers, such as copies a DCC tool exported one by one.
+ * The hash covers index data and attribute layout only. Attribute values are compared within a
+ * tolerance instead: rounding thousands of floats to a grid puts some copy's noise across a grid
+ * line almost every time, and a moved or rotated copy has different values altogether.
+ */
+export class GeometryFingerprint {
+  static compute(geometry: THREE.BufferGeometry): GeometryFingerprintResult {
+    const version = this.version(geometry);
+    const cached = cache.get(geometry);
+    if (cached?.version === version) return cached.result;
+
+    const result = {
+      key: this.hash(geometry),
+      radius: this.radius(geometry),
+      extent: this.extent(geometry),
+      toCanonical: this.canonicalPose(geometry),
+    };
+    cache.set(geometry, { version, result });
+    return result;
+  }
+
+  /**
+   * Radius bucket for the tolerance. Copies that match land in the same or a neighbouring bucket,
+   * so candidates only need comparing with those three.
+   */
+  static radiusBucket(fingerprint: GeometryFingerprintResult, tolerance: number): number {
+    // Positions within the tolerance per axis change the radius by at most 2·√3 times the tolerance,
+    // which is scaled by the radius above 1: buckets are linear below 1 and logarithmic above
+    const step = Math.max(tolerance, 1e-9) * 10;
+    const { radius } = fingerprint;
+    return radius < 1 ? Math.floor(radius / step) : Math.floor(1 / step) + Math.floor(Math.log(radius) / Math.log1p(step));
+  }
+
+  /**
+   * Whether b holds the same data as a, within the tolerance, either as stored or after a rigid
+   * transform. Returns the transform from a to b (identity for plain copies), or null.
+   * The tolerance is relative for positions: it is multiplied by the radius when that is above 1,
+   * plus a few float32 steps at the largest coordinate, since a copy far from the origin can't be
+   * stored any closer. That rounding tilts the transform found between copies, so normals and
+   * tangents allow the same error over the radius. Other attributes compare the tolerance as is.
+   * Only meaningful for geometries with equal fingerprint keys. A rigid match needs a tolerance
+   * above 0, since moved copies are never bit-for-bit equal after the transform.
+   */
+  static compare(a: THREE.BufferGeometry, b: THREE.BufferGeometry, tolerance: number): THREE.Matrix4 | null {
+    const fingerprintA = this.compute(a);
+    const fingerprintB = this.compute(b);
+    const noise = FLOAT32_NOISE * Math.max(fingerprintA.extent, fingerprintB.extent);
+    const tolerances = {
+      position: tolerance * Math.max(1, fingerprintA.radius, fingerprintB.radius) + noise,
+      direction: tolerance + noise / Math.max(fingerprintA.radius, fingerprintB.radius, 1e-9),
+      other: tolerance,
+    };
+    if (a === b || this.matches(a, b, IDENTITY, tolerances)) return IDENTITY.clone();
+
+    const poseA = fingerprintA.toCanonical;
+    const poseB = fingerprintB.toCanonical;
+    if (!poseA || !poseB) return null;
+    const offset = poseB.clone().invert().multiply(poseA);
+    return this.matches(a, b, offset, tolerances) ? offset : null;
+  }
+
+  private static version(geometry: THREE.BufferGeometry): string {
+    const attributes = Object.values(geometry.attributes) as { version?: number }[];
+    return [geometry.index?.version ?? -1, ...attributes.map(attr => attr.version ?? 0)].join('.');
+  }
+
+  private static hash(geometry: THREE.BufferGeometry): string {
+    const hasher = new Hasher();
+
+    const index = geometry.index;
+    hasher.int(index ? index.count : -1);
+    if (index) for (let i = 0; i < index.count; i++) hasher.int(index.getX(i));
+    geometry.groups.forEach((group) => {
+      hasher.int(group.start);
+      hasher.int(group.count);
+      hasher.int(group.materialIndex ?? 0);
+    });
+
+    Object.keys(geometry.attributes).sort().forEach((name) => {
+      const attr = geometry.getAttribute(name);
+      for (let i = 0; i < name.length; i++) hasher.int(name.charCodeAt(i));
+      hasher.int(attr.itemSize);
+      hasher.int(attr.count);
+    });
+
+    return hasher.digest();
+  }
+
+  private static radius(geometry: THREE.BufferGeometry): number {
+    const position = geometry.getAttribute('position');
+    if (!position || position.count === 0) return 0;
+
+    const centroid = this.centroid(position);
+    const p = new THREE.Vector3();
+    let sum = 0;
+    for (let i = 0; i < position.count; i++) sum += p.fromBufferAttribute(position, i).distanceToSquared(centroid);
+    return Math.sqrt(sum / position.count);
+  }
+
+  private static extent(geometry: THREE.BufferGeometry): number {
+    const position = geometry.getAttribute('position');
+    if (!position) return 0;
+
+    let max = 0;
+    for (let i = 0; i < position.count; i++) {
+      max = Math.max(max, Math.abs(position.getX(i)), Math.abs(position.getY(i)), Math.abs(position.getZ(i)));
+    }
+    return max;
+  }
+
+  private static centroid(position: THREE.BufferAttribute | THREE.InterleavedBufferAttribute): THREE.Vector3 {
+    const centroid = new THREE.Vector3();
+    const p = new THREE.Vector3();
+    for (let i = 0; i < position.count; i++) centroid.add(p.fromBufferAttribute(position, i));
+    return centroid.divideScalar(position.count);
+  }
+
+  /**
+   * Compares every attribute of b with a's, after moving a's positions and rotating its directions by the transform.
+   */
+  private static matches(
+    a: THREE.BufferGeometry,
+    b: THREE.BufferGeometry,
+    transform: THREE.Matrix4,
+    tolerances: { position: number; direction: number; other: number }
+  ): boolean {
+    const rotation = new THREE.Matrix3().setFromMatrix4(transform);
+    const va = new THREE.Vector3();
+    const vb = new THREE.Vector3();
+
+    return Object.keys(a.attributes).every((name) => {
+      const attrA = a.getAttribute(name);
+      const attrB = b.getAttribute(name);
+      if (!attrB || attrA.itemSize !== attrB.itemSize || attrA.count !== attrB.count) return false;
+
+      const isPosition = name === 'position';
+      const transformed = attrA.itemSize >= 3 && (isPosition || DIRECTION_ATTRIBUTES.includes(name));
+      for (let i = 0; i < attrA.count; i++) {
+        let first = 0;
+        if (transformed) {
+          va.fromBufferAttribute(attrA, i);
+          if (isPosition) va.applyMatrix4(transform);
+          else va.applyMatrix3(rotation);
+          vb.fromBufferAttribute(attrB, i);
+          const limit = isPosition ? tolerances.position : tolerances.direction;
+          if (Math.abs(va.x - vb.x) > limit || Math.abs(va.y - vb.y) > limit || Math.abs(va.z - vb.z) > limit) return false;
+          first = 3;
+        }
+        for (let c = first; c < attrA.itemSize; c++) {
+          if (Math.abs(attrA.getComponent(i, c) - attrB.getComponent(i, c)) > tolerances.other) return false;
+        }
+      }
+      return true;
+    });
+  }
+
+  /**
+   * A rigid frame fixed by the data itself: origin at the centroid, first axis towards the first
+   * vertex at least half as far out as the farthest, second towards the first vertex at least half
+   * as far off that axis as the farthest. Copies that share vertex order land on the same frame
+   * whatever rotation and translation they were exported with.
+   */
+  private static canonicalPose(geometry: THREE.BufferGeometry): THREE.Matrix4 | null {
+    const position = geometry.getAttribute('position');
+    if (!position || position.count < 3) return null;
+
+    const centroid = this.centroid(position);
+    const axisX = this.farAxis(position, v => v.sub(centroid));
+    if (!axisX) return null;
+    const axisY = this.farAxis(position, v => v.sub(centroid).addScaledVector(axisX, -v.dot(axisX)));
+    if (!axisY) return null;
+
+    const axisZ = new THREE.Vector3().crossVectors(axisX, axisY);
+    const rotation = new THREE.Matrix4().makeBasis(axisX, axisY, axisZ).transpose();
+    return rotation.multiply(new THREE.Matrix4().makeTranslation(-centroid.x, -centroid.y, -centroid.z));
+  }
+
+  private static farAxis(
+    position: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+    project: (v: THREE.Vector3) => THREE.Vector3
+  ): THREE.Vector3 | null {
+    const v = new THREE.Vector3();
+    let max = 0;
+    for (let i = 0; i < position.count; i++) max = Math.max(max, project(v.fromBufferAttribute(position, i)).length());
+    if (max === 0) return null;
+
+    for (let i = 0; i < position.count; i++) {
+      project(v.fromBufferAttribute(position, i));
+      if (v.length() >= max / 2) return v.normalize();
+    }
+    return null;
+  }
+}
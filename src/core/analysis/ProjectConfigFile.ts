@@ -0,0 +1,29 @@
+import { RuleRegistry } from './RuleRegistry';
+import type { ProjectConfig } from '@/types/model';
+
+/**
+ * ProjectConfigFile
+ * Reads and writes the JSON settings file a project commits next to its assets, so the viewer
+ * and the command-line analyzer apply the same rule settings.
+ */
+export class ProjectConfigFile {
+  static readonly FILE_NAME = 'thenext3d.config.json';
+
+  /**
+   * Parses a settings file. Malformed entries are dropped and reported, not fatal;
+   * only text that isn't a JSON object throws.
+   */
+  static parse(text: string): { config: ProjectConfig; warnings: string[] } {
+    const json: unknown = JSON.parse(text);
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+      throw new Error('A project config file must contain a JSON object.');
+    }
+
+    const { settings, warnings } = RuleRegistry.sanitize((json as { rules?: unknown }).rules);
+    return { config: { rules: settings }, warnings };
+  }
+
+  static toBlob(config: ProjectConfig): Blob {
+    return new Blob([JSON.stringify(config, null, 2)], { type: 'application/json' });
+  }
+}
@@ -0,0 +1,166 @@
+import type { RawSceneData } from './SceneAnalyzer';
+import type {
+  BudgetLimits,
+  BudgetProfile,
+  IssueSource,
+  RuleCategory,
+  RuleMeasurement,
+  RuleOptionSpec,
+  RuleSettingsMap,
+  RuntimeMetrics,
+  StructuralIssue,
+} from '@/types/model';
+import { BudgetProfiles } from './BudgetProfiles';
+import { BUILTIN_RULES } from './rules/BuiltinRules';
+import { BUDGET_RULES } from './rules/BudgetRules';
+import { PROJECT_RULES } from './rules/ProjectRules';
+import { RUNTIME_RULES } from './rules/RuntimeRules';
+
+export interface RuleContext {
+  severity: StructuralIssue['severity'];
+  // Every option the rule declares, with project overrides applied
+  options: Record<string, number>;
+  // Target platform the scene is scored against
+  profile: BudgetProfile;
+  // Renderer measurements; runtime rules only run once these are available
+  runtime: RuntimeMetrics | null;
+}
+
+// An issue together with what it takes off the score and why
+export interface RuleFinding {
+  issue: StructuralIssue;
+  penalty: number;
+  measurement: RuleMeasurement;
+}
+
+export interface OptimizationRule {
+  // Stable id used in project settings; also the issue type for built-in rules
+  id: string;
+  title: string;
+  description: string;
+  category: RuleCategory;
+  // Static rules read the scene's structure, runtime rules the renderer's measurements
+  source: IssueSource;
+  defaultSeverity: StructuralIssue['severity'];
+  options: Record<string, RuleOptionSpec>;
+  evaluate(data: RawSceneData, context: RuleContext): RuleFinding[];
+}
+
+export interface ResolvedRule {
+  rule: OptimizationRule;
+  context: RuleContext;
+}
+
+const SEVERITIES: StructuralIssue['severity'][] = ['low', 'medium', 'high'];
+
+/**
+ * RuleRegistry
+ * The rules OptimizationEngine runs, in registration order. Built-in and project rules
+ * (rules/ProjectRules.ts) are registered up front; any of them can be tuned through RuleSettingsMap.
+ * register() only reaches the registry of the thread it's called on, not the load worker's.
+ */
+export class RuleRegistry {
+  private static rules = new Map<string, OptimizationRule>(
+    [...BUDGET_RULES, ...BUILTIN_RULES, ...RUNTIME_RULES, ...PROJECT_RULES].map(rule => [rule.id, rule]),
+  );
+
+  // Ids of rules added with register(), which reports from the load worker don't include
+  private static registered = new Set<string>();
+
+  static register(rule: OptimizationRule) {
+    if (this.rules.has(rule.id)) throw new Error(`A rule with id "${rule.id}" is already registered.`);
+    this.rules.set(rule.id, rule);
+    this.registered.add(rule.id);
+  }
+
+  static unregister(id: string) {
+    this.rules.delete(id);
+    this.registered.delete(id);
+  }
+
+  static get hasRegisteredRules(): boolean {
+    return this.registered.size > 0;
+  }
+
+  static get(id: string): OptimizationRule | undefined {
+    return this.rules.get(id);
+  }
+
+  static list(): OptimizationRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  // An option's value when the project doesn't override it
+  static optionDefault(spec: RuleOptionSpec, limits: BudgetLimits): number {
+    return spec.budget ? limits[spec.budget] : spec.default;
+  }
+
+  /**
+   * Enabled rules with their effective severity and options. Settings for rules that
+   * aren't registered are ignored, as are option values the rule doesn't declare.
+   */
+  static resolve(
+    settings: RuleSettingsMap = {},
+    profile: BudgetProfile = BudgetProfiles.default,
+    runtime: RuntimeMetrics | null = null,
+  ): ResolvedRule[] {
+    return this.list()
+      .filter(rule => settings[rule.id]?.enabled !== false)
+      .map((rule) => {
+        const overrides = settings[rule.id] ?? {};
+        const options = Object.fromEntries(
+          Object.entries(rule.options).map(([key, spec]) => {
+            const value = overrides.options?.[key];
+            return [key, typeof value === 'number' && Number.isFinite(value) ? value : this.optionDefault(spec, profile.limits)];
+          }),
+        );
+        return { rule, context: { severity: overrides.severity ?? rule.defaultSeverity, options, profile, runtime } };
+      });
+  }
+
+  /**
+   * Checks untrusted settings (an imported or committed project file) and keeps only
+   * well-formed entries. Returns the settings and a message per dropped entry.
+   */
+  static sanitize(value: unknown): { settings: RuleSettingsMap; warnings: string[] } {
+    const settings: RuleSettingsMap = {};
+    const warnings: string[] = [];
+    if (value === undefined) return { settings, warnings };
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return { settings, warnings: ['"rules" must be an object keyed by rule id.'] };
+    }
+
+    Object.entries(value as Record<string, unknown>).forEach(([id, entry]) => {
+      const rule = this.rules.get(id);
+      if (!rule) {
+        warnings.push(`Unknown rule "${id}".`);
+        return;
+      }
+      if (!entry || typeof entry !== 'object') {
+        warnings.push(`Settings for "${id}" must be an object.`);
+        return;
+      }
+
+      const { enabled, severity, options } = entry as Record<string, unknown>;
+      const result: RuleSettingsMap[string] = {};
+      if (typeof enabled === 'boolean') result.enabled = enabled;
+      else if (enabled !== undefined) warnings.push(`"${id}.enabled" must be true or false.`);
+
+      if (SEVERITIES.includes(severity as StructuralIssue['severity'])) result.severity = severity as StructuralIssue['severity'];
+      else if (severity !== undefined) warnings.push(`"${id}.severity" must be one of ${SEVERITIES.join(', ')}.`);
+
+      if (options && typeof options === 'object') {
+        Object.entries(options as Record<string, unknown>).forEach(([key, option]) => {
+          if (!(key in rule.options)) warnings.push(`Rule "${id}" has no option "${key}".`);
+          else if (typeof option !== 'number' || !Number.isFinite(option)) warnings.push(`"${id}.options.${key}" must be a number.`);
+          else result.options = { ...result.options, [key]: option };
+        });
+      } else if (options !== undefined) {
+        warnings.push(`"${id}.options" must be an object.`);
+      }
+      settings[id] = result;
+    });
+
+    return { settings, warnings };
+  }
+}
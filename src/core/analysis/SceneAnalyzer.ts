@@ -1,8 +1,15 @@
 import * as THREE from 'three';
+import { TextureAnalyzer } from '../debug/TextureAnalyzer';
+import { SceneGraphBuilder } from '../scene/SceneGraphBuilder';
+import type { SceneDiff, SceneSnapshot, SnapshotDelta } from '@/types/model';
+
+// Rough size of a texture once stored as JPEG/PNG in a file, for the file size estimate
+const COMPRESSED_BYTES_PER_TEXEL = 0.5;
 
 export interface RawSceneData {
   meshCount: number;
-  geometries: Map<string, { count: number; vertexCount: number; affectedUuids: string[] }>;
+  // The buffer is kept so rules can fingerprint its contents
+  geometries: Map<string, { geometry: THREE.BufferGeometry; count: number; vertexCount: number; affectedUuids: string[] }>;
   materials: Map<string, { count: number; affectedUuids: string[]; hasTextures: boolean }>;
   textures: { uuid: string; width: number; height: number; affectedUuids: string[] }[];
   meshDetails: {
@@ -36,11 +43,11 @@ export class SceneAnalyzer {
       if (child instanceof THREE.Mesh) {
         data.meshCount++;
         const mesh = child;
-        const geometry = mesh.geometry;
+        const geometry: THREE.BufferGeometry = mesh.geometry;
         const material = mesh.material;
 
         // 1. Geometry tracking
-        const geomEntry = data.geometries.get(geometry.uuid) || { count: 0, vertexCount: 0, affectedUuids: [] };
+        const geomEntry = data.geometries.get(geometry.uuid) || { geometry, count: 0, vertexCount: 0, affectedUuids: [] };
         geomEntry.count++;
         geomEntry.vertexCount = geometry.attributes.position ? geometry.attributes.position.count : 0;
         geomEntry.affectedUuids.push(mesh.uuid);
@@ -57,8 +64,7 @@ export class SceneAnalyzer {
           matEntry.affectedUuids.push(mesh.uuid);
 
           // Track textures in material
-          const maps = ['map', 'normalMap', 'roughnessMap', 'metalnessMap', 'emissiveMap', 'aoMap'] as const;
-          maps.forEach(mapName => {
+          TextureAnalyzer.TEXTURE_SLOTS.forEach(mapName => {
             const map = (mat as any)[mapName];
             if (map && map.image) {
               hasTextures = true;
@@ -102,4 +108,117 @@ export class SceneAnalyzer {
     data.textures = Array.from(textureMap.values());
     return data;
   }
+
+  /**
+   * Captures render-cost totals for diffing. Unlike analyze(), this counts nodes produced
+   * by the optimization engines; of an LOD only the most detailed level is counted.
+   */
+  static snapshot(scene: THREE.Object3D, label: string): SceneSnapshot {
+    const snapshot: SceneSnapshot = {
+      label,
+      timestamp: new Date().toISOString(),
+      nodes: {},
+      materials: {},
+      drawCalls: 0,
+      triangles: 0,
+      textureMemory: 0,
+      estimatedFileSize: 0,
+    };
+
+    const paths = SceneGraphBuilder.indexPaths(scene);
+    scene.traverse((node) => {
+      snapshot.nodes[node.uuid] = { name: node.name, type: node.type, path: paths.get(node.uuid)!.path! };
+    });
+
+    const buffers = new Set<THREE.TypedArray>();
+    const textures = new Set<string>();
+    const addBuffer = (attr: THREE.BufferAttribute | THREE.InterleavedBufferAttribute | null | undefined) => {
+      if (!attr) return;
+      const array = (attr as THREE.InterleavedBufferAttribute).isInterleavedBufferAttribute
+        ? (attr as THREE.InterleavedBufferAttribute).data.array
+        : attr.array;
+      if (buffers.has(array)) return;
+      buffers.add(array);
+      snapshot.estimatedFileSize += array.byteLength;
+    };
+
+    const visit = (node: THREE.Object3D) => {
+      if (node instanceof THREE.LOD) {
+        if (node.levels.length > 0) visit(node.levels[0].object);
+        return;
+      }
+
+      if (node instanceof THREE.Mesh) {
+        const geometry = node.geometry as THREE.BufferGeometry;
+        const instances = node instanceof THREE.InstancedMesh ? node.count : 1;
+        const vertexCount = geometry.index ? geometry.index.count : geometry.attributes.position?.count ?? 0;
+        snapshot.triangles += Math.floor(vertexCount / 3) * instances;
+
+        // Debug render modes swap materials; count what the asset actually uses
+        const material = (node.userData.originalMaterial ?? node.material) as THREE.Material | THREE.Material[];
+        const mats = Array.isArray(material) ? material : [material];
+        const draws = Array.isArray(material)
+          ? geometry.groups.filter(g => mats[g.materialIndex ?? 0]).map(g => mats[g.materialIndex ?? 0])
+          : mats;
+        draws.forEach((mat) => {
+          const entry = snapshot.materials[mat.uuid] ?? { name: mat.name || mat.type, drawCalls: 0 };
+          entry.drawCalls++;
+          snapshot.materials[mat.uuid] = entry;
+          snapshot.drawCalls++;
+        });
+
+        mats.forEach(mat => TextureAnalyzer.TEXTURE_SLOTS.forEach((slot) => {
+          const map = (mat as any)[slot] as THREE.Texture | undefined;
+          if (!map?.image || textures.has(map.uuid)) return;
+          textures.add(map.uuid);
+          const texels = (map.image.width ?? 0) * (map.image.height ?? 0);
+          snapshot.textureMemory += texels * 4;
+          snapshot.estimatedFileSize += texels * COMPRESSED_BYTES_PER_TEXEL;
+        }));
+
+        addBuffer(geometry.index);
+        Object.values(geometry.attributes).forEach(addBuffer);
+        Object.values(geometry.morphAttributes).forEach(list => list.forEach(addBuffer));
+        if (node instanceof THREE.InstancedMesh) {
+          addBuffer(node.instanceMatrix);
+          addBuffer(node.instanceColor);
+        }
+      }
+
+      node.children.forEach(visit);
+    };
+    visit(scene);
+
+    snapshot.estimatedFileSize = Math.round(snapshot.estimatedFileSize);
+    return snapshot;
+  }
+
+  static diff(before: SceneSnapshot, after: SceneSnapshot): SceneDiff {
+    const delta = (key: 'drawCalls' | 'triangles' | 'textureMemory' | 'estimatedFileSize'): SnapshotDelta =>
+      ({ before: before[key], after: after[key] });
+    const onlyIn = (a: SceneSnapshot, b: SceneSnapshot) =>
+      Object.entries(a.nodes).filter(([uuid]) => !(uuid in b.nodes)).map(([uuid, node]) => ({ uuid, ...node }));
+
+    const materialIds = new Set([...Object.keys(before.materials), ...Object.keys(after.materials)]);
+    const materials = Array.from(materialIds)
+      .map(uuid => ({
+        uuid,
+        name: (after.materials[uuid] ?? before.materials[uuid]).name,
+        before: before.materials[uuid]?.drawCalls ?? 0,
+        after: after.materials[uuid]?.drawCalls ?? 0,
+      }))
+      .filter(m => m.before !== m.after);
+
+    return {
+      from: { label: before.label, timestamp: before.timestamp },
+      to: { label: after.label, timestamp: after.timestamp },
+      addedNodes: onlyIn(after, before),
+      removedNodes: onlyIn(before, after),
+      materials,
+      drawCalls: delta('drawCalls'),
+      triangles: delta('triangles'),
+      textureMemory: delta('textureMemory'),
+      estimatedFileSize: delta('estimatedFileSize'),
+    };
+  }
 }
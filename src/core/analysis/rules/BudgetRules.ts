@@ -0,0 +1,90 @@
+import type { OptimizationRule } from '../RuleRegistry';
+import type { RawSceneData } from '../SceneAnalyzer';
+import type { BudgetCheck, BudgetKey, RuleCategory, StructuralIssue } from '@/types/model';
+import { BudgetProfiles } from '../BudgetProfiles';
+
+function formatAmount(check: BudgetCheck, value: number) {
+  return `${value.toLocaleString('en-US')} ${check.unit}`;
+}
+
+/**
+ * One rule per scene-wide budget of the active profile. The issue carries the measured
+ * budget, and the penalty grows with how far over it the scene is.
+ */
+function budgetRule(
+  key: BudgetKey,
+  id: string,
+  title: string,
+  category: RuleCategory,
+  defaultSeverity: StructuralIssue['severity'],
+  advice: string,
+  affectedUuids: (data: RawSceneData, limit: number) => string[] = () => [],
+): OptimizationRule {
+  return {
+    id,
+    title,
+    description: `${title} against the active budget profile.`,
+    category,
+    source: 'static',
+    defaultSeverity,
+    options: {},
+    evaluate(data, { severity, profile }) {
+      const check = BudgetProfiles.measure(key, data, profile.limits);
+      if (!check?.exceeded) return [];
+
+      const affected = affectedUuids(data, check.limit);
+      return [{
+        penalty: BudgetProfiles.penalty(check),
+        measurement: { value: check.actual, threshold: check.limit, unit: check.unit },
+        issue: {
+          id: `budget-${key}`,
+          type: 'budget_exceeded',
+          severity,
+          title: `${check.label} over the ${profile.name} budget`,
+          description: `${formatAmount(check, check.actual)} against a budget of ${formatAmount(check, check.limit)} `
+            + `(${Math.round(check.overBy * 100)}% over). ${advice}`,
+          affectedUuids: affected.length > 0 ? affected : undefined,
+          budget: check,
+        },
+      }];
+    },
+  };
+}
+
+export const BUDGET_RULES: OptimizationRule[] = [
+  budgetRule(
+    'triangles',
+    'triangle_budget',
+    'Triangle count',
+    'geometry',
+    'high',
+    'Simplify dense meshes or add LOD levels.',
+  ),
+  budgetRule(
+    'drawCalls',
+    'draw_call_budget',
+    'Draw calls',
+    'draw_calls',
+    'high',
+    'Instance repeated meshes and merge static meshes that share a material.',
+  ),
+  budgetRule(
+    'textureSize',
+    'texture_size_budget',
+    'Texture size',
+    'textures',
+    'medium',
+    'Downscale the largest textures.',
+    (data, limit) => Array.from(new Set(
+      data.textures.filter(tex => Math.max(tex.width, tex.height) > limit).flatMap(tex => tex.affectedUuids),
+    )),
+  ),
+  budgetRule(
+    'vramMB',
+    'vram_budget',
+    'GPU memory',
+    'textures',
+    'high',
+    'Downscale or compress textures (KTX2) and remove unused vertex attributes.',
+  ),
+];
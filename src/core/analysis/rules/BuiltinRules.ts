@@ -0,0 +1,312 @@
+import * as THREE from 'three';
+import { GeometryFingerprint } from '../GeometryFingerprint';
+import type { OptimizationRule } from '../RuleRegistry';
+
+const IDENTITY = new THREE.Matrix4();
+
+interface InstanceGroup {
+  template: { geometryUuid: string; geometry: THREE.BufferGeometry };
+  materialUuid: string;
+  affectedUuids: string[];
+  geometryUuids: Set<string>;
+  // Rigid transform from the template geometry to each mesh's own copy, where it isn't identity
+  geometryOffsets: Record<string, number[]>;
+}
+
+const duplicateGeometry: OptimizationRule = {
+  id: 'duplicate_geometry',
+  title: 'Duplicate geometry',
+  description: 'Static meshes with the same geometry and material, which could be drawn as one InstancedMesh. Geometry is compared by content, so separate buffers with the same data count too, including copies that were moved or rotated in their vertex data.',
+  category: 'draw_calls',
+  source: 'static',
+  defaultSeverity: 'high',
+  options: {
+    minCopies: { label: 'Minimum copies', default: 2, min: 2, step: 1 },
+    // Above 0: copies moved or rotated in their vertex data never match bit for bit.
+    // Relative to the geometry's radius for positions (when above 1), absolute for normals, UVs etc.
+    tolerance: { label: 'Vertex data tolerance (relative to size)', default: 0.0001, min: 0.000001, step: 0.0001 },
+  },
+  evaluate(data, { severity, options }) {
+    // Candidates share a fingerprint and material and have about the same radius; among those,
+    // each geometry joins the first group it matches
+    const buckets = new Map<string, Map<number, InstanceGroup[]>>();
+    const groups: InstanceGroup[] = [];
+    const groupOf = new Map<string, { group: InstanceGroup; offset: THREE.Matrix4 }>();
+
+    data.meshDetails.forEach((mesh) => {
+      if (!mesh.isStatic) return; // Skinned and morphing meshes can't be instanced
+      const geometry = data.geometries.get(mesh.geometryUuid)?.geometry;
+      if (!geometry) return;
+
+      const geometryKey = `${mesh.geometryUuid}_${mesh.materialUuid}`;
+      let match = groupOf.get(geometryKey);
+      if (!match) {
+        const fingerprint = GeometryFingerprint.compute(geometry);
+        const bucketKey = `${fingerprint.key}_${mesh.materialUuid}`;
+        const bucket = buckets.get(bucketKey) ?? new Map<number, InstanceGroup[]>();
+        buckets.set(bucketKey, bucket);
+        const radius = GeometryFingerprint.radiusBucket(fingerprint, options.tolerance);
+        const candidates = [radius - 1, radius, radius + 1].flatMap(r => bucket.get(r) ?? []);
+        for (const group of candidates) {
+          const offset = GeometryFingerprint.compare(group.template.geometry, geometry, options.tolerance);
+          if (offset) {
+            match = { group, offset };
+            break;
+          }
+        }
+        if (!match) {
+          const group: InstanceGroup = {
+            template: { geometryUuid: mesh.geometryUuid, geometry },
+            materialUuid: mesh.materialUuid,
+            affectedUuids: [],
+            geometryUuids: new Set(),
+            geometryOffsets: {},
+          };
+          const cell = bucket.get(radius) ?? [];
+          cell.push(group);
+          bucket.set(radius, cell);
+          groups.push(group);
+          match = { group, offset: new THREE.Matrix4() };
+        }
+        groupOf.set(geometryKey, match);
+      }
+
+      const { group, offset } = match;
+      group.affectedUuids.push(mesh.uuid);
+      group.geometryUuids.add(mesh.geometryUuid);
+      if (!offset.equals(IDENTITY)) group.geometryOffsets[mesh.uuid] = offset.toArray();
+    });
+
+    return groups
+      .filter(group => group.affectedUuids.length >= options.minCopies)
+      .map(({ template, materialUuid, affectedUuids, geometryUuids, geometryOffsets }) => {
+        const count = affectedUuids.length;
+        const moved = Object.keys(geometryOffsets).length;
+
+        let description = `${count} objects share identical geometry.`;
+        if (geometryUuids.size > 1) {
+          description = `${count} objects use ${geometryUuids.size} separate copies of the same geometry${moved > 0 ? `, ${moved} of them moved or rotated in their vertex data` : ''}.`;
+        }
+
+        return {
+          penalty: Math.min(10, count * 2),
+          measurement: { value: count, threshold: options.minCopies, unit: 'copies' },
+          issue: {
+            id: `instancing-${template.geometryUuid}-${materialUuid}`,
+            type: 'duplicate_geometry',
+            severity,
+            title: 'Geometry Instancing Proposal',
+            description: `${description} Converting to InstancedMesh will batch them into a single draw call.`,
+            count,
+            affectedUuids,
+            canAutoOptimize: true,
+            state: 'idle',
+            optimizationMetadata: {
+              action: 'convert_to_instanced',
+              geometryUuid: template.geometryUuid,
+              materialUuid,
+              ...(moved > 0 ? { geometryOffsets } : {}),
+              estimatedDrawCallReduction: count - 1,
+              metrics: { before: count, after: 1, unit: 'Draw Calls' },
+            },
+          },
+        };
+      });
+  },
+};
+
+const staticMerge: OptimizationRule = {
+  id: 'static_merge',
+  title: 'Static mesh merge',
+  description: 'Different static geometries sharing a material, which could be merged into one buffer.',
+  category: 'draw_calls',
+  source: 'static',
+  defaultSeverity: 'medium',
+  options: {
+    minMeshes: { label: 'Minimum meshes per material', default: 6, min: 2, step: 1 },
+  },
+  evaluate(data, { severity, options }) {
+    const materialGroups = new Map<string, string[]>();
+    data.meshDetails.forEach((mesh) => {
+      if (!mesh.isStatic) return;
+      const group = materialGroups.get(mesh.materialUuid) ?? [];
+      group.push(mesh.uuid);
+      materialGroups.set(mesh.materialUuid, group);
+    });
+
+    return Array.from(materialGroups.entries())
+      .filter(([, meshUuids]) => meshUuids.length >= options.minMeshes)
+      .map(([materialUuid, meshUuids]) => ({
+        penalty: 0,
+        measurement: { value: meshUuids.length, threshold: options.minMeshes, unit: 'meshes' },
+        issue: {
+          id: `static-merge-${materialUuid}`,
+          type: 'static_merge',
+          severity,
+          title: 'Static Mesh Merge Proposal',
+          description: `${meshUuids.length} static meshes share the same material. Merging them into a single buffer will maximize GPU batching efficiency.`,
+          count: meshUuids.length,
+          affectedUuids: meshUuids,
+          canAutoOptimize: true,
+          state: 'idle',
+          optimizationMetadata: {
+            action: 'merge_static',
+            materialUuid,
+            estimatedDrawCallReduction: meshUuids.length - 1,
+            metrics: { before: meshUuids.length, after: 1, unit: 'Draw Calls' },
+          },
+        },
+      }));
+  },
+};
+
+const materialFragmentation: OptimizationRule = {
+  id: 'material_fragmentation',
+  title: 'Material fragmentation',
+  description: 'Many unique materials relative to the number of meshes.',
+  category: 'materials',
+  source: 'static',
+  defaultSeverity: 'medium',
+  options: {
+    maxMaterials: { label: 'Unique materials allowed', min: 1, step: 1, budget: 'materials' },
+    maxMaterialsPerMesh: { label: 'Materials per mesh allowed', default: 0.5, min: 0, step: 0.05 },
+  },
+  evaluate(data, { severity, options }) {
+    const uniqueMats = data.materials.size;
+    // Both limits have to be crossed
+    const threshold = Math.max(options.maxMaterials, Math.floor(data.meshCount * options.maxMaterialsPerMesh));
+    if (uniqueMats <= threshold) return [];
+    return [{
+      penalty: 10,
+      measurement: { value: uniqueMats, threshold, unit: 'materials' },
+      issue: {
+        id: 'mat-fragmentation',
+        type: 'material_fragmentation',
+        severity,
+        title: 'Material Fragmentation',
+        description: `${uniqueMats} unique materials for ${data.meshCount} meshes. Consider merging materials into an atlas to reduce GPU state changes.`,
+        count: uniqueMats,
+      },
+    }];
+  },
+};
+
+const textureOverkill: OptimizationRule = {
+  id: 'texture_overkill',
+  title: 'Texture overkill',
+  description: 'Very large textures mapped onto very small meshes.',
+  category: 'textures',
+  source: 'static',
+  defaultSeverity: 'medium',
+  options: {
+    minTextureSize: { label: 'Texture size (px, square equivalent)', min: 256, step: 256, budget: 'smallMeshTextureSize' },
+    maxMeshVolume: { label: 'Mesh bounding volume below', default: 0.1, min: 0, step: 0.01 },
+  },
+  evaluate(data, { severity, options }) {
+    return data.textures.flatMap((tex) => {
+      if (tex.width * tex.height < options.minTextureSize * options.minTextureSize) return [];
+      const overkillUuids = data.meshDetails
+        .filter(mesh => tex.affectedUuids.includes(mesh.uuid) && mesh.volume < options.maxMeshVolume)
+        .map(mesh => mesh.uuid);
+      if (overkillUuids.length === 0) return [];
+
+      return [{
+        penalty: 5,
+        measurement: { value: Math.round(Math.sqrt(tex.width * tex.height)), threshold: options.minTextureSize, unit: 'px' },
+        issue: {
+          id: `tex-overkill-${tex.uuid}`,
+          type: 'texture_overkill' as const,
+          severity,
+          title: 'Texture Overkill',
+          description: `${tex.width}×${tex.height} px texture (${options.minTextureSize} px or more) used on very small mesh (${overkillUuids.length} instances). Downscaling to ${Math.ceil(tex.width / 4)}×${Math.ceil(tex.height / 4)} px would save significant VRAM with no visual loss.`,
+          affectedUuids: overkillUuids,
+        },
+      }];
+    });
+  },
+};
+
+const meshDensity: OptimizationRule = {
+  id: 'mesh_density',
+  title: 'Mesh density',
+  description: 'Meshes with extreme vertex density for their size (over-tessellation).',
+  category: 'geometry',
+  source: 'static',
+  defaultSeverity: 'medium',
+  options: {
+    maxDensity: { label: 'Vertices per unit volume allowed', min: 0, step: 1000, budget: 'vertexDensity' },
+    minVertices: { label: 'Ignore meshes under (vertices)', default: 5000, min: 0, step: 500 },
+  },
+  evaluate(data, { severity, options }) {
+    const denseMeshes = data.meshDetails
+      .filter(mesh => mesh.vertexCount / mesh.volume > options.maxDensity && mesh.vertexCount > options.minVertices);
+    const highDensityMeshes = denseMeshes.map(mesh => mesh.uuid);
+    if (highDensityMeshes.length === 0) return [];
+    const maxDensity = Math.max(...denseMeshes.map(mesh => mesh.vertexCount / mesh.volume));
+
+    return [{
+      penalty: 10,
+      measurement: { value: Math.round(maxDensity), threshold: options.maxDensity, unit: 'vertices per unit³' },
+      issue: {
+        id: 'high-density',
+        type: 'mesh_density',
+        severity,
+        title: 'High Mesh Density',
+        description: `${highDensityMeshes.length} meshes have extreme vertex density for their size. Decimation (Simplification) is recommended.`,
+        affectedUuids: highDensityMeshes,
+      },
+    }];
+  },
+};
+
+const lodNeeded: OptimizationRule = {
+  id: 'lod_needed',
+  title: 'Level of detail',
+  description: 'High-poly static meshes that would benefit from LOD levels.',
+  category: 'geometry',
+  source: 'static',
+  defaultSeverity: 'low',
+  options: {
+    minTriangles: { label: 'Triangles per mesh above', min: 0, step: 5000, budget: 'lodTriangles' },
+  },
+  evaluate(data, { severity, options }) {
+    const lodCandidates = data.meshDetails.filter(m => m.triangleCount > options.minTriangles && m.isStatic);
+    if (lodCandidates.length === 0) return [];
+
+    const totalTris = lodCandidates.reduce((sum, m) => sum + m.triangleCount, 0);
+    return [{
+      penalty: 0,
+      measurement: {
+        value: Math.max(...lodCandidates.map(m => m.triangleCount)),
+        threshold: options.minTriangles,
+        unit: 'triangles per mesh',
+      },
+      issue: {
+        id: 'lod-proposal',
+        type: 'lod_needed',
+        severity,
+        title: 'Level of Detail (LOD) Proposal',
+        description: `${lodCandidates.length} high-poly static meshes detected. Implementing LOD will dynamically reduce triangle count for distant views.`,
+        affectedUuids: lodCandidates.map(m => m.uuid),
+        canAutoOptimize: true,
+        state: 'idle',
+        optimizationMetadata: {
+          action: 'generate_lod',
+          meshes: lodCandidates.map(m => ({ uuid: m.uuid, triangleCount: m.triangleCount })),
+          estimatedTriangleReduction: '75%',
+          metrics: { before: totalTris, after: Math.round(totalTris * 0.25), unit: 'Triangles' },
+        },
+      },
+    }];
+  },
+};
+
+// In the order their issues are listed
+export const BUILTIN_RULES: OptimizationRule[] = [
+  duplicateGeometry,
+  staticMerge,
+  materialFragmentation,
+  textureOverkill,
+  meshDensity,
+  lodNeeded,
+];
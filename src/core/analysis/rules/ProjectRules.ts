@@ -0,0 +1,5 @@
+import type { OptimizationRule } from '../RuleRegistry';
+
+// Studio-specific checks. RuleRegistry registers these itself, so they run wherever it does:
+// in the viewer, in its load worker and in the command-line analyzer.
+export const PROJECT_RULES: OptimizationRule[] = [];
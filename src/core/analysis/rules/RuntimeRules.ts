@@ -0,0 +1,86 @@
+import type { OptimizationRule } from '../RuleRegistry';
+
+const frameRate: OptimizationRule = {
+  id: 'runtime_frame_rate',
+  title: 'Frame rate',
+  description: 'Average frame rate while sampling, against the profile\'s target. Reported without a score deduction: it depends on this device and is capped by its display refresh rate.',
+  category: 'rendering',
+  source: 'runtime',
+  defaultSeverity: 'high',
+  options: {
+    minFps: { label: 'Frame rate below (fps)', min: 1, step: 1, budget: 'targetFps' },
+    // Rounding and vsync keep a scene that holds the display's rate a frame or two under it
+    allowedShortfall: { label: 'Allowed shortfall (fps)', default: 2, min: 0, step: 1 },
+  },
+  evaluate(data, { severity, options, profile, runtime }) {
+    if (!runtime || runtime.fps >= options.minFps - options.allowedShortfall) return [];
+    return [{
+      // The same model measures differently per machine (and not at all from the command line), so it can't move the score
+      penalty: 0,
+      measurement: { value: runtime.fps, threshold: options.minFps, unit: 'fps' },
+      issue: {
+        id: 'runtime-frame-rate',
+        type: 'runtime_performance',
+        severity,
+        title: 'Frame Rate Below Target',
+        description: `The scene averaged ${runtime.fps} fps over ${runtime.frames} frames; the ${profile.name} target is ${options.minFps} fps. On this device the rate can't exceed the display's refresh rate, so a target above it is never met. Otherwise, reduce draw calls, triangle count and expensive materials (transmission, transparency).`,
+      },
+    }];
+  },
+};
+
+const renderPasses: OptimizationRule = {
+  id: 'runtime_render_passes',
+  title: 'Extra render passes',
+  description: 'Rendered draw calls well above the mesh count, from shadow maps, transparency or transmission passes.',
+  category: 'rendering',
+  source: 'runtime',
+  defaultSeverity: 'medium',
+  options: {
+    maxCallsPerMesh: { label: 'Draw calls per mesh allowed', default: 2, min: 1, step: 0.5 },
+  },
+  evaluate(data, { severity, options, runtime }) {
+    const threshold = Math.ceil(data.meshCount * options.maxCallsPerMesh);
+    if (!runtime || data.meshCount === 0 || runtime.drawCalls <= threshold) return [];
+    return [{
+      penalty: 5,
+      measurement: { value: runtime.drawCalls, threshold, unit: 'draw calls' },
+      issue: {
+        id: 'runtime-render-passes',
+        type: 'runtime_performance',
+        severity,
+        title: 'Extra Render Passes',
+        description: `${runtime.drawCalls} draw calls per frame for ${data.meshCount} meshes. Shadow casting, transparent and transmissive materials render meshes more than once; limit them to the meshes that need them.`,
+      },
+    }];
+  },
+};
+
+const shaderPrograms: OptimizationRule = {
+  id: 'runtime_shader_programs',
+  title: 'Shader programs',
+  description: 'Many distinct shader programs, each compiled on first use and switched between while drawing.',
+  category: 'rendering',
+  source: 'runtime',
+  defaultSeverity: 'low',
+  options: {
+    maxPrograms: { label: 'Shader programs allowed', default: 30, min: 1, step: 1 },
+  },
+  evaluate(data, { severity, options, runtime }) {
+    if (!runtime || runtime.programs <= options.maxPrograms) return [];
+    return [{
+      penalty: 5,
+      measurement: { value: runtime.programs, threshold: options.maxPrograms, unit: 'programs' },
+      issue: {
+        id: 'runtime-shader-programs',
+        type: 'runtime_performance',
+        severity,
+        title: 'Many Shader Programs',
+        description: `${runtime.programs} shader programs in use. Materials that differ only in parameters share a program; differing features (maps, skinning, morphs) do not. Consolidating materials cuts compile stalls.`,
+      },
+    }];
+  },
+};
+
+// Need renderer measurements; OptimizationEngine skips them until enough frames have been sampled
+export const RUNTIME_RULES: OptimizationRule[] = [frameRate, renderPasses, shaderPrograms];
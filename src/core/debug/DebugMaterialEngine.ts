@@ -110,6 +110,7 @@ export class DebugMaterialEngine {
           return new THREE.MeshStandardMaterial({
             color: original.color,
             map: original.map,
+            vertexColors: original.vertexColors,
             side: original.side,
             transparent: original.transparent,
             opacity: original.opacity,
@@ -122,6 +123,7 @@ export class DebugMaterialEngine {
           return new THREE.MeshBasicMaterial({
             color: original.color,
             map: original.map,
+            vertexColors: original.vertexColors,
             side: original.side,
             transparent: original.transparent,
             opacity: original.opacity,
@@ -131,6 +133,7 @@ export class DebugMaterialEngine {
         return new THREE.MeshBasicMaterial({ 
           color: (original as any).color || 0x888888,
           map: (original as any).map || null,
+          vertexColors: original.vertexColors,
           transparent: original.transparent,
           opacity: original.opacity
         });
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { GPUStressStats } from '@/types/model';
 
 /**
  * GPUCostAnalyzer
@@ -87,7 +88,7 @@ export class GPUCostAnalyzer {
   /**
    * Returns a summary report of GPU rendering risk.
    */
-  static getSceneGPUReport(scene: THREE.Object3D) {
+  static getSceneGPUReport(scene: THREE.Object3D): GPUStressStats {
     let totalScore = 0;
     let transparentCount = 0;
     let doubleSideCount = 0;
@@ -6,11 +6,18 @@ import { TextureUsageStats } from '@/types/model';
  * Calculates GPU memory footprint and identifies unoptimized texture usage.
  */
 export class TextureAnalyzer {
+  /**
+   * Material slots that can hold a texture, across Standard/Physical and Phong (OBJ + MTL) materials.
+   */
+  static readonly TEXTURE_SLOTS = [
+    'map', 'normalMap', 'roughnessMap', 'metalnessMap', 'emissiveMap', 'aoMap', 'specularMap', 'bumpMap',
+  ] as const;
+
   /**
    * Calculates texture statistics for a specific mesh.
    */
   static getMeshTextureStats(mesh: THREE.Mesh): TextureUsageStats {
-    const maps = ['map', 'normalMap', 'roughnessMap', 'metalnessMap', 'emissiveMap', 'aoMap'] as const;
+    const maps = this.TEXTURE_SLOTS;
     const material = mesh.material;
     const mats = Array.isArray(material) ? material : [material];
     
@@ -81,7 +88,7 @@ export class TextureAnalyzer {
         
         // This scene-level check should look at unique textures
         const mats = Array.isArray(node.material) ? node.material : [node.material];
-        const mapNames = ['map', 'normalMap', 'roughnessMap', 'metalnessMap', 'emissiveMap', 'aoMap'] as const;
+        const mapNames = this.TEXTURE_SLOTS;
         
         mats.forEach(mat => {
           mapNames.forEach(name => {
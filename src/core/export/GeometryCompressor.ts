@@ -0,0 +1,65 @@
+import { WebIO } from '@gltf-transform/core';
+import { ALL_EXTENSIONS } from '@gltf-transform/extensions';
+import { draco, meshopt } from '@gltf-transform/functions';
+import { MeshoptEncoder } from 'meshoptimizer';
+import type { QuantizationBits } from '@/types/model';
+
+// Served from public/decoders (copied out of node_modules by scripts/copy-decoders.js)
+const DRACO_ENCODER_PATH = '/decoders/draco_encoder/';
+
+type DracoEncoderFactory = (config: { locateFile: (file: string) => string }) => Promise<unknown>;
+
+/**
+ * GeometryCompressor
+ * Re-encodes an exported GLB with Draco or Meshopt geometry compression via glTF-Transform.
+ */
+export class GeometryCompressor {
+  private static dracoEncoder: Promise<unknown> | null = null;
+
+  static async compress(glb: ArrayBuffer, method: 'draco' | 'meshopt', bits: QuantizationBits): Promise<Uint8Array> {
+    const io = new WebIO().registerExtensions(ALL_EXTENSIONS);
+    const quantization = {
+      quantizePosition: bits.position,
+      quantizeNormal: bits.normal,
+      quantizeTexcoord: bits.texcoord,
+      quantizeColor: bits.color,
+    };
+
+    if (method === 'draco') {
+      io.registerDependencies({ 'draco3d.encoder': await this.getDracoEncoder() });
+    } else {
+      await MeshoptEncoder.ready;
+      io.registerDependencies({ 'meshopt.encoder': MeshoptEncoder });
+    }
+
+    const doc = await io.readBinary(new Uint8Array(glb));
+    await doc.transform(
+      method === 'draco'
+        ? draco(quantization)
+        : meshopt({ encoder: MeshoptEncoder, level: 'high', ...quantization }),
+    );
+    return io.writeBinary(doc);
+  }
+
+  /**
+   * Loads the draco3d WASM encoder once. Its Emscripten wrapper registers a global
+   * factory when run as a classic script.
+   */
+  private static getDracoEncoder(): Promise<unknown> {
+    if (!this.dracoEncoder) {
+      this.dracoEncoder = new Promise<void>((resolve, reject) => {
+        const script = document.createElement('script');
+        script.src = DRACO_ENCODER_PATH + 'draco_encoder.js';
+        script.onload = () => resolve();
+        script.onerror = () => reject(new Error(`Could not load the Draco encoder from ${DRACO_ENCODER_PATH}`));
+        document.head.appendChild(script);
+      }).then(() => {
+        const factory = (window as unknown as { DracoEncoderModule: DracoEncoderFactory }).DracoEncoderModule;
+        return factory({ locateFile: (file) => DRACO_ENCODER_PATH + file });
+      });
+      // Let a later export retry after a failed load
+      this.dracoEncoder.catch(() => { this.dracoEncoder = null; });
+    }
+    return this.dracoEncoder;
+  }
+}
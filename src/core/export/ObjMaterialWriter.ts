@@ -0,0 +1,112 @@
+import * as THREE from 'three';
+import * as WebGLTextureUtils from 'three/examples/jsm/utils/WebGLTextureUtils.js';
+
+export interface ObjMaterialLibrary {
+  mtl: string;
+  // Texture images referenced by the .mtl, keyed by file name
+  images: Record<string, Uint8Array>;
+}
+
+type DrawableImage = CanvasImageSource & { width: number; height: number };
+
+/**
+ * ObjMaterialWriter
+ * Writes an .mtl for an export copy. Materials on the copy are replaced by renamed clones
+ * so every mesh gets a unique, whitespace-free `usemtl` name; the live materials keep theirs.
+ */
+export class ObjMaterialWriter {
+  static async write(root: THREE.Object3D, baseName: string, maxTextureSize: number): Promise<ObjMaterialLibrary> {
+    const renamed = new Map<THREE.Material, THREE.Material>();
+    const usedNames = new Set<string>();
+    root.traverse((node) => {
+      const mesh = node as THREE.Mesh;
+      if (!mesh.isMesh || Array.isArray(mesh.material)) return;
+      let material = renamed.get(mesh.material);
+      if (!material) {
+        material = mesh.material.clone();
+        material.name = this.uniqueName(mesh.material.name || mesh.material.type, usedNames);
+        renamed.set(mesh.material, material);
+      }
+      mesh.material = material;
+    });
+
+    const images: Record<string, Uint8Array> = {};
+    const imageNames = new Map<THREE.Texture, string | null>();
+    const imageFor = async (texture: THREE.Texture | null | undefined) => {
+      if (!texture) return null;
+      if (!imageNames.has(texture)) {
+        const png = await this.encodeTexture(texture, maxTextureSize);
+        const name = png ? `${baseName}_${this.uniqueName(texture.name || 'texture', usedNames)}.png` : null;
+        if (png && name) images[name] = png;
+        imageNames.set(texture, name);
+      }
+      return imageNames.get(texture)!;
+    };
+
+    const lines: string[] = [];
+    const color = new THREE.Color();
+    for (const material of renamed.values()) {
+      const mat = material as THREE.MeshStandardMaterial & THREE.MeshPhongMaterial;
+      lines.push(`newmtl ${mat.name}`);
+      if (mat.color) lines.push(`Kd ${this.rgb(color.copy(mat.color))}`);
+      if (mat.emissive) lines.push(`Ke ${this.rgb(color.copy(mat.emissive).multiplyScalar(mat.emissiveIntensity ?? 1))}`);
+      if (mat.specular) lines.push(`Ks ${this.rgb(color.copy(mat.specular))}`, `Ns ${mat.shininess}`);
+      lines.push(`d ${mat.transparent ? mat.opacity : 1}`, `illum ${mat.specular ? 2 : 1}`);
+
+      const diffuse = await imageFor(mat.map);
+      if (diffuse) lines.push(`map_Kd ${diffuse}`);
+      const emissive = await imageFor(mat.emissiveMap);
+      if (emissive) lines.push(`map_Ke ${emissive}`);
+      const normal = await imageFor(mat.normalMap);
+      if (normal) lines.push(`norm ${normal}`);
+      const alpha = await imageFor(mat.alphaMap);
+      if (alpha) lines.push(`map_d ${alpha}`);
+      lines.push('');
+    }
+
+    return { mtl: lines.join('\n'), images };
+  }
+
+  // MTL colours are read as display (sRGB) values
+  private static rgb(color: THREE.Color) {
+    const { r, g, b } = color.getRGB(new THREE.Color(), THREE.SRGBColorSpace);
+    return [r, g, b].map(c => c.toFixed(4)).join(' ');
+  }
+
+  private static uniqueName(name: string, used: Set<string>) {
+    const base = name.replace(/[^\w-]+/g, '_') || 'material';
+    let result = base;
+    for (let i = 1; used.has(result); i++) result = `${base}_${i}`;
+    used.add(result);
+    return result;
+  }
+
+  /**
+   * PNG bytes of a texture, scaled down to maxTextureSize. OBJ puts the V origin at the bottom,
+   * so images of textures that three.js samples unflipped (glTF, KTX2) are flipped here.
+   */
+  private static async encodeTexture(texture: THREE.Texture, maxTextureSize: number): Promise<Uint8Array | null> {
+    const source = (texture as THREE.CompressedTexture).isCompressedTexture
+      ? WebGLTextureUtils.decompress(texture, maxTextureSize).image
+      : texture.image;
+    const image = source as DrawableImage | undefined;
+    const drawable = image instanceof HTMLImageElement || image instanceof HTMLCanvasElement
+      || (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap);
+    if (!drawable || !image.width || !image.height) return null;
+
+    const scale = Math.min(1, maxTextureSize / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    if (!texture.flipY) {
+      ctx.translate(0, canvas.height);
+      ctx.scale(1, -1);
+    }
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+  }
+}
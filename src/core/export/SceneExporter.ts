@@ -0,0 +1,426 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { USDZExporter } from 'three/examples/jsm/exporters/USDZExporter.js';
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
+import * as WebGLTextureUtils from 'three/examples/jsm/utils/WebGLTextureUtils.js';
+import { clone as cloneWithSkeletons } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { zipSync } from 'three/examples/jsm/libs/fflate.module.js';
+import type { ExportOptions, SubtreeExportOptions } from '@/types/model';
+import { GeometryCompressor } from './GeometryCompressor';
+import { ObjMaterialWriter } from './ObjMaterialWriter';
+
+// Viewer-only state kept on userData that must never reach an exported file
+const VIEWER_USERDATA_KEYS = ['originalMaterial', 'originalEmissive', 'fileName'];
+
+export interface ExportResult {
+  blob: Blob;
+  fileName: string;
+  // Size of the same export without geometry compression, when compression was applied
+  uncompressedSize?: number;
+}
+
+interface GLTFJson {
+  buffers?: { uri?: string }[];
+  images?: { uri?: string; name?: string }[];
+}
+
+/**
+ * SceneExporter
+ * Prepares the live scene for export without touching it: debug materials and
+ * highlight effects are swapped back to what the asset actually contains.
+ */
+export class SceneExporter {
+  /**
+   * Exports a clean copy of the scene. Separate glTF output with more than one file
+   * (the .bin, plus images unless embedded) is bundled into a ZIP; compressed output is always GLB.
+   * OBJ with its .mtl and textures is zipped the same way.
+   */
+  static async export(root: THREE.Object3D, clips: THREE.AnimationClip[], options: ExportOptions): Promise<ExportResult> {
+    let copy: THREE.Object3D;
+    if (options.subtree) {
+      const node = root.getObjectByProperty('uuid', options.subtree.uuid);
+      if (!node) throw new Error(`Node "${options.subtree.name}" is no longer in the scene.`);
+      copy = this.createSubtreeCopy(root, node, options.subtree);
+      clips = this.clipsForSubtree(clips, node, options.subtree.includeChildren);
+    } else {
+      copy = this.createCleanCopy(root);
+    }
+    if (options.truncateDrawRange) this.truncateDrawRanges(copy);
+    if (options.format === 'usdz') return this.exportUsdz(copy, options);
+    if (options.format === 'obj') return this.exportObj(copy, options);
+    if (options.format === 'stl') return this.exportStl(copy, options);
+
+    const compressed = options.compression !== 'none';
+    const result = await new GLTFExporter().parseAsync(copy, {
+      binary: options.format === 'glb' || compressed,
+      onlyVisible: options.onlyVisible,
+      maxTextureSize: options.maxTextureSize,
+      animations: options.animations ? clips : [],
+    });
+
+    if (result instanceof ArrayBuffer && compressed) {
+      const glb = await GeometryCompressor.compress(result, options.compression as 'draco' | 'meshopt', options.quantization);
+      return {
+        blob: new Blob([glb as BlobPart], { type: 'model/gltf-binary' }),
+        fileName: `${options.fileName}.glb`,
+        uncompressedSize: result.byteLength,
+      };
+    }
+    if (result instanceof ArrayBuffer) {
+      return { blob: new Blob([result], { type: 'model/gltf-binary' }), fileName: `${options.fileName}.glb` };
+    }
+    return this.packageGltf(result as GLTFJson, options);
+  }
+
+  /**
+   * Clones the scene (skeletons rebound) with every mesh on its original material and
+   * every material on its pre-pulse emissive. Geometry and untouched materials stay shared.
+   */
+  static createCleanCopy(root: THREE.Object3D): THREE.Object3D {
+    // Object3D.copy() deep-copies userData through JSON, which would serialize cached
+    // materials whole; take them off for the clone and put them back afterwards.
+    const stashed = new Map<THREE.Object3D, Record<string, unknown>>();
+    root.traverse((node) => {
+      const viewerState = this.takeViewerState(node.userData);
+      if (viewerState) stashed.set(node, viewerState);
+    });
+
+    let copy: THREE.Object3D;
+    try {
+      copy = cloneWithSkeletons(root);
+    } finally {
+      stashed.forEach((state, node) => Object.assign(node.userData, state));
+    }
+
+    const cleanMaterials = new Map<THREE.Material, THREE.Material>();
+    const clean = (mat: THREE.Material) => {
+      let result = cleanMaterials.get(mat);
+      if (!result) {
+        result = mat;
+        if (VIEWER_USERDATA_KEYS.some(key => key in mat.userData)) {
+          result = mat.clone();
+          const original = mat.userData.originalEmissive;
+          if (original !== undefined && (result as THREE.MeshStandardMaterial).emissive) {
+            (result as THREE.MeshStandardMaterial).emissive.setHex(original as number);
+          }
+          this.takeViewerState(result.userData);
+        }
+        cleanMaterials.set(mat, result);
+      }
+      return result;
+    };
+
+    this.parallelTraverse(root, copy, (source, target) => {
+      if (!(target instanceof THREE.Mesh)) return;
+      const material = (source.userData.originalMaterial ?? (source as THREE.Mesh).material) as THREE.Material | THREE.Material[];
+      target.material = Array.isArray(material) ? material.map(clean) : clean(material);
+    });
+
+    return copy;
+  }
+
+  /**
+   * Clean copy of a single node (and optionally its descendants). GLTFExporter only writes
+   * materials and textures reached from exported meshes, so nothing else in the scene leaks in.
+   */
+  static createSubtreeCopy(root: THREE.Object3D, node: THREE.Object3D, options: SubtreeExportOptions): THREE.Object3D {
+    const included = new Set<THREE.Object3D>();
+    if (options.includeChildren) node.traverse(n => { included.add(n); });
+    else included.add(node);
+
+    included.forEach((n) => {
+      const mesh = n as THREE.SkinnedMesh;
+      if (mesh.isSkinnedMesh && mesh.skeleton.bones.some(bone => !included.has(bone))) {
+        throw new Error(`"${mesh.name || 'Skinned mesh'}" is bound to bones outside this node. Export the node containing its armature instead.`);
+      }
+    });
+
+    const copy = this.createCleanCopy(node);
+    if (!options.includeChildren) copy.clear();
+
+    if (options.bakeWorldTransform) {
+      root.updateWorldMatrix(true, true);
+      new THREE.Matrix4()
+        .copy(root.matrixWorld).invert()
+        .multiply(node.matrixWorld)
+        .decompose(copy.position, copy.quaternion, copy.scale);
+    }
+    return copy;
+  }
+
+  /**
+   * Keeps only the tracks that animate the node or, with children included, its descendants.
+   * Clips left without tracks are dropped.
+   */
+  static clipsForSubtree(clips: THREE.AnimationClip[], node: THREE.Object3D, includeChildren = true): THREE.AnimationClip[] {
+    const targets = (track: THREE.KeyframeTrack) => {
+      const { nodeName } = THREE.PropertyBinding.parseTrackName(track.name);
+      const target = THREE.PropertyBinding.findNode(node, nodeName) as THREE.Object3D | null;
+      return !!target && (includeChildren || target === node);
+    };
+    return clips
+      .map(clip => new THREE.AnimationClip(clip.name, clip.duration, clip.tracks.filter(targets), clip.blendMode))
+      .filter(clip => clip.tracks.length > 0);
+  }
+
+  /**
+   * USDZ for Apple Quick Look. The exporter only writes visible meshes with a single
+   * MeshStandardMaterial and no animation; see UsdzPreflight for what gets lost.
+   */
+  private static async exportUsdz(copy: THREE.Object3D, options: ExportOptions): Promise<ExportResult> {
+    copy = this.expandInstances(copy);
+    copy.updateMatrixWorld(true);
+
+    const exporter = new USDZExporter();
+    // Needed to read back KTX2 / compressed textures as images
+    exporter.textureUtils = WebGLTextureUtils;
+    const usdz = await exporter.parseAsync(copy, {
+      quickLookCompatible: true,
+      maxTextureSize: options.maxTextureSize,
+    });
+    return { blob: new Blob([usdz as BlobPart], { type: 'model/vnd.usdz+zip' }), fileName: `${options.fileName}.usdz` };
+  }
+
+  private static async exportObj(copy: THREE.Object3D, options: ExportOptions): Promise<ExportResult> {
+    copy = this.flattenForMeshFile(copy, options);
+    if (!options.objMaterials) {
+      return { blob: new Blob([new OBJExporter().parse(copy)], { type: 'model/obj' }), fileName: `${options.fileName}.obj` };
+    }
+
+    // OBJExporter writes one `usemtl` per mesh, so multi-material meshes are split first
+    copy = this.splitMaterialGroups(copy);
+    const base = options.fileName;
+    const { mtl, images } = await ObjMaterialWriter.write(copy, base, options.maxTextureSize);
+    const obj = `mtllib ${base}.mtl\n${new OBJExporter().parse(copy)}`;
+    const encoder = new TextEncoder();
+    const files = { ...images, [`${base}.obj`]: encoder.encode(obj), [`${base}.mtl`]: encoder.encode(mtl) };
+    return { blob: new Blob([zipSync(files) as BlobPart], { type: 'application/zip' }), fileName: `${base}.zip` };
+  }
+
+  private static exportStl(copy: THREE.Object3D, options: ExportOptions): ExportResult {
+    copy = this.flattenForMeshFile(copy, options);
+    const stl = options.stlBinary
+      ? new STLExporter().parse(copy, { binary: true })
+      : new STLExporter().parse(copy);
+    return { blob: new Blob([stl as BlobPart], { type: 'model/stl' }), fileName: `${options.fileName}.stl` };
+  }
+
+  /**
+   * OBJ and STL have no scene graph: both exporters bake each mesh's world matrix into its
+   * vertices. Hidden nodes are dropped (the exporters ignore visibility), LODs keep only their
+   * most detailed level, and instances are expanded so nothing is written twice or skipped.
+   */
+  private static flattenForMeshFile(copy: THREE.Object3D, options: ExportOptions): THREE.Object3D {
+    const prune = (node: THREE.Object3D) => {
+      if (node instanceof THREE.LOD) {
+        node.levels.slice(1).forEach(level => level.object.removeFromParent());
+        node.levels.splice(1);
+      }
+      [...node.children].forEach((child) => {
+        if (options.onlyVisible && !child.visible) child.removeFromParent();
+        else prune(child);
+      });
+    };
+    prune(copy);
+    copy = this.expandInstances(copy);
+    copy.updateMatrixWorld(true);
+    return copy;
+  }
+
+  /**
+   * Replaces each mesh with several materials by one mesh per geometry group. The parts
+   * share the original attributes and index only their own range. Returns the new root if it was split itself.
+   */
+  private static splitMaterialGroups(root: THREE.Object3D): THREE.Object3D {
+    const split: THREE.Mesh[] = [];
+    root.traverse((node) => {
+      const mesh = node as THREE.Mesh;
+      if (mesh.isMesh && Array.isArray(mesh.material)) split.push(mesh);
+    });
+
+    split.forEach((mesh) => {
+      const geometry = mesh.geometry;
+      const materials = mesh.material as THREE.Material[];
+      const total = geometry.index ? geometry.index.count : geometry.attributes.position.count;
+      const groups = geometry.groups.length > 0 ? geometry.groups : [{ start: 0, count: total, materialIndex: 0 }];
+
+      const parts: THREE.Mesh[] = [];
+      groups.forEach((group, i) => {
+        const material = materials[group.materialIndex ?? 0];
+        if (!material) return;
+        const part = new THREE.BufferGeometry();
+        Object.entries(geometry.attributes).forEach(([name, attr]) => part.setAttribute(name, attr));
+        const end = Math.min(group.start + group.count, total);
+        const indices: number[] = [];
+        for (let j = group.start; j < end; j++) indices.push(geometry.index ? geometry.index.getX(j) : j);
+        part.setIndex(indices);
+
+        const partMesh = new THREE.Mesh(part, material);
+        partMesh.name = `${mesh.name || 'mesh'}_${i}`;
+        parts.push(partMesh);
+      });
+
+      const group = new THREE.Group();
+      group.name = mesh.name;
+      mesh.matrix.decompose(group.position, group.quaternion, group.scale);
+      [...parts, ...mesh.children].forEach(child => group.add(child));
+      if (mesh === root) {
+        root = group;
+      } else {
+        mesh.parent!.add(group);
+        mesh.removeFromParent();
+      }
+    });
+    root.updateMatrixWorld(true);
+    return root;
+  }
+
+  /**
+   * USDZExporter writes an InstancedMesh once at its own transform; replace each with
+   * plain meshes sharing its geometry and material. Returns the new root if it was one itself.
+   */
+  private static expandInstances(root: THREE.Object3D): THREE.Object3D {
+    const instanced: THREE.InstancedMesh[] = [];
+    root.traverse((node) => {
+      if ((node as THREE.InstancedMesh).isInstancedMesh) instanced.push(node as THREE.InstancedMesh);
+    });
+
+    instanced.forEach((source) => {
+      const group = new THREE.Group();
+      group.name = source.name;
+      group.matrix.copy(source.matrix);
+      group.matrix.decompose(group.position, group.quaternion, group.scale);
+      group.visible = source.visible;
+      for (let i = 0; i < source.count; i++) {
+        const mesh = new THREE.Mesh(source.geometry, source.material);
+        mesh.name = `${source.name || 'instance'}_${i}`;
+        source.getMatrixAt(i, mesh.matrix);
+        mesh.matrix.decompose(mesh.position, mesh.quaternion, mesh.scale);
+        group.add(mesh);
+      }
+      if (source === root) {
+        root = group;
+      } else {
+        source.parent!.add(group);
+        source.removeFromParent();
+      }
+    });
+    return root;
+  }
+
+  /**
+   * Moves buffer data (and images, unless embedded) out of data URIs into separate files.
+   */
+  private static async packageGltf(json: GLTFJson, options: ExportOptions): Promise<ExportResult> {
+    const base = options.fileName;
+    const files: Record<string, Uint8Array> = {};
+    const decode = async (uri: string) => new Uint8Array(await (await fetch(uri)).arrayBuffer());
+
+    const buffers = json.buffers ?? [];
+    for (let i = 0; i < buffers.length; i++) {
+      const uri = buffers[i].uri;
+      if (!uri?.startsWith('data:')) continue;
+      const name = buffers.length > 1 ? `${base}_${i}.bin` : `${base}.bin`;
+      files[name] = await decode(uri);
+      buffers[i].uri = name;
+    }
+
+    if (!options.embedImages) {
+      const images = json.images ?? [];
+      for (let i = 0; i < images.length; i++) {
+        const uri = images[i].uri;
+        if (!uri?.startsWith('data:')) continue;
+        const ext = uri.slice('data:image/'.length, uri.indexOf(';')).replace('jpeg', 'jpg');
+        const label = (images[i].name || 'image').replace(/[^\w-]+/g, '_');
+        const name = `${base}_${label}_${i}.${ext}`;
+        files[name] = await decode(uri);
+        images[i].uri = name;
+      }
+    }
+
+    const gltf = new TextEncoder().encode(JSON.stringify(json, null, 2));
+    if (Object.keys(files).length === 0) {
+      return { blob: new Blob([gltf], { type: 'model/gltf+json' }), fileName: `${base}.gltf` };
+    }
+    files[`${base}.gltf`] = gltf;
+    return { blob: new Blob([zipSync(files) as BlobPart], { type: 'application/zip' }), fileName: `${base}.zip` };
+  }
+
+  /**
+   * GLTFExporter writes whole buffers regardless of drawRange; bake the range into the
+   * geometry instead. Geometries shared between meshes are truncated once.
+   */
+  private static truncateDrawRanges(root: THREE.Object3D) {
+    const truncated = new Map<THREE.BufferGeometry, THREE.BufferGeometry>();
+
+    root.traverse((node) => {
+      const mesh = node as THREE.Mesh;
+      if (!mesh.isMesh) return;
+
+      const geometry = mesh.geometry;
+      const total = geometry.index ? geometry.index.count : geometry.attributes.position?.count ?? 0;
+      const start = Math.min(geometry.drawRange.start, total);
+      const end = Math.min(total, start + geometry.drawRange.count);
+      if (start === 0 && end === total) return;
+
+      let result = truncated.get(geometry);
+      if (!result) {
+        result = geometry.clone();
+        if (result.index) {
+          result.setIndex(this.sliceAttribute(result.index, start, end));
+        } else {
+          Object.entries(result.attributes).forEach(([name, attr]) => {
+            result!.setAttribute(name, this.sliceAttribute(attr, start, end));
+          });
+          Object.entries(result.morphAttributes).forEach(([name, list]) => {
+            result!.morphAttributes[name] = list.map(attr => this.sliceAttribute(attr, start, end));
+          });
+        }
+
+        const groups = result.groups
+          .map(g => ({ ...g, start: Math.max(g.start, start) - start, count: Math.min(g.start + g.count, end) - Math.max(g.start, start) }))
+          .filter(g => g.count > 0);
+        result.clearGroups();
+        groups.forEach(g => result!.addGroup(g.start, g.count, g.materialIndex));
+        result.setDrawRange(0, Infinity);
+        truncated.set(geometry, result);
+      }
+      mesh.geometry = result;
+    });
+  }
+
+  private static sliceAttribute(
+    attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+    start: number,
+    end: number,
+  ): THREE.BufferAttribute {
+    const { itemSize } = attribute;
+    const Ctor = attribute.array.constructor as new (length: number) => THREE.TypedArray;
+    const array = new Ctor((end - start) * itemSize);
+    for (let i = start; i < end; i++) {
+      for (let c = 0; c < itemSize; c++) array[(i - start) * itemSize + c] = attribute.getComponent(i, c);
+    }
+    return new THREE.BufferAttribute(array, itemSize, attribute.normalized);
+  }
+
+  private static takeViewerState(userData: Record<string, unknown>): Record<string, unknown> | null {
+    let state: Record<string, unknown> | null = null;
+    VIEWER_USERDATA_KEYS.forEach((key) => {
+      if (!(key in userData)) return;
+      state = state ?? {};
+      state[key] = userData[key];
+      delete userData[key];
+    });
+    return state;
+  }
+
+  private static parallelTraverse(
+    a: THREE.Object3D,
+    b: THREE.Object3D,
+    callback: (a: THREE.Object3D, b: THREE.Object3D) => void,
+  ) {
+    callback(a, b);
+    a.children.forEach((child, i) => this.parallelTraverse(child, b.children[i], callback));
+  }
+}
@@ -0,0 +1,105 @@
+import * as THREE from 'three';
+import type { ExportWarning } from '@/types/model';
+
+// Maps with no UsdPreviewSurface input; USDZExporter skips them silently
+const UNSUPPORTED_MAPS = [
+  'lightMap', 'bumpMap', 'displacementMap', 'envMap', 'specularMap', 'clearcoatNormalMap',
+  'sheenColorMap', 'sheenRoughnessMap', 'transmissionMap', 'thicknessMap', 'iridescenceMap',
+  'iridescenceThicknessMap', 'anisotropyMap', 'specularIntensityMap', 'specularColorMap',
+] as const;
+
+// Maps USDZExporter writes, each through a UsdTransform2d
+const SUPPORTED_MAPS = [
+  'map', 'emissiveMap', 'normalMap', 'aoMap', 'roughnessMap', 'metalnessMap', 'alphaMap',
+  'clearcoatMap', 'clearcoatRoughnessMap',
+] as const;
+
+// MeshPhysicalMaterial features beyond clearcoat and IOR, which are all UsdPreviewSurface carries
+const UNSUPPORTED_FEATURES = ['transmission', 'sheen', 'iridescence', 'anisotropy', 'dispersion'] as const;
+
+/**
+ * UsdzPreflight
+ * Lists what a USDZ export would lose, so it can be reviewed before writing the file.
+ */
+export class UsdzPreflight {
+  static check(root: THREE.Object3D, clips: THREE.AnimationClip[] = []): ExportWarning[] {
+    const warnings = new Map<string, ExportWarning>();
+    const warn = (code: ExportWarning['code'], message: string, subject: string) => {
+      const key = `${code}:${message}`;
+      const warning = warnings.get(key) ?? { code, message, subjects: [] };
+      if (!warning.subjects.includes(subject)) warning.subjects.push(subject);
+      warnings.set(key, warning);
+    };
+
+    const checkedMaterials = new Set<THREE.Material>();
+    root.updateWorldMatrix(true, true);
+    root.traverseVisible((node) => {
+      const mesh = node as THREE.Mesh;
+      if (!mesh.isMesh) return;
+      const meshName = mesh.name || `${mesh.type} ${mesh.id}`;
+
+      // Debug render modes swap materials; check what will actually be exported
+      const material = (mesh.userData.originalMaterial ?? mesh.material) as THREE.Material | THREE.Material[];
+      if (Array.isArray(material)) {
+        warn('multi_material', 'Meshes with several materials are left out of USDZ', meshName);
+        return;
+      }
+      if (!(material as THREE.MeshStandardMaterial).isMeshStandardMaterial) {
+        warn('unsupported_material', `${material.type} is not a standard PBR material; these meshes are left out`, meshName);
+        return;
+      }
+
+      if (mesh.geometry.morphAttributes.position?.length) {
+        warn('morph_targets', 'Morph targets are dropped; meshes export in their base shape', meshName);
+      }
+      if ((mesh as THREE.SkinnedMesh).isSkinnedMesh) {
+        warn('skinning', 'Skinning is dropped; meshes export in their bind pose', meshName);
+      }
+      if (mesh.matrixWorld.determinant() < 0) {
+        warn('negative_scale', 'Negative scale is not supported and may render inside out', meshName);
+      }
+
+      if (!checkedMaterials.has(material)) {
+        checkedMaterials.add(material);
+        this.checkMaterial(material as THREE.MeshPhysicalMaterial, warn);
+      }
+    });
+
+    clips.forEach(clip => warn('animations', 'Animations are not exported to USDZ', clip.name || 'Unnamed clip'));
+    return Array.from(warnings.values());
+  }
+
+  private static checkMaterial(
+    material: THREE.MeshPhysicalMaterial,
+    warn: (code: ExportWarning['code'], message: string, subject: string) => void,
+  ) {
+    const name = material.name || `${material.type} ${material.id}`;
+    const slots = material as unknown as Record<string, THREE.Texture | null | undefined>;
+
+    if (material.side === THREE.DoubleSide) {
+      warn('double_sided', 'Double-sided materials render single-sided in Quick Look', name);
+    }
+
+    UNSUPPORTED_MAPS.forEach((slot) => {
+      if (slots[slot]) warn('unsupported_map', `${slot} is not carried by USDZ`, name);
+    });
+
+    if (material.isMeshPhysicalMaterial) {
+      UNSUPPORTED_FEATURES.forEach((feature) => {
+        if ((material[feature] ?? 0) > 0) warn('unsupported_feature', `${feature} is not carried by USDZ`, name);
+      });
+    }
+
+    SUPPORTED_MAPS.forEach((slot) => {
+      const texture = slots[slot];
+      if (!texture) return;
+      if (!texture.matrixAutoUpdate) {
+        warn('texture_transform', 'Custom texture matrices are ignored; only offset, repeat and rotation are written', name);
+      } else if (texture.center.x !== 0 || texture.center.y !== 0) {
+        warn('texture_transform', 'Texture rotation center is ignored; textures rotate around the UV origin', name);
+      } else if (texture.rotation !== 0 && (texture.repeat.x !== 1 || texture.repeat.y !== 1)) {
+        warn('texture_transform', 'Rotated and repeated textures are approximated for Quick Look', name);
+      }
+    });
+  }
+}
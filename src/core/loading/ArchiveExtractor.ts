@@ -0,0 +1,33 @@
+import { unzip } from 'three/examples/jsm/libs/fflate.module.js';
+
+/**
+ * ArchiveExtractor
+ * Unpacks ZIP deliveries in the browser into the same path-keyed file map a folder drop produces.
+ */
+export class ArchiveExtractor {
+  static isArchive(name: string): boolean {
+    return name.toLowerCase().endsWith('.zip');
+  }
+
+  /**
+   * Extracts every file of a ZIP archive, keyed by its path inside the archive.
+   * macOS resource forks and directory entries are skipped.
+   */
+  static async extract(archive: File): Promise<Map<string, File>> {
+    const data = new Uint8Array(await archive.arrayBuffer());
+
+    const entries = await new Promise<Record<string, Uint8Array>>((resolve, reject) => {
+      unzip(data, {
+        filter: (entry) => !entry.name.endsWith('/') && !entry.name.startsWith('__MACOSX/'),
+      }, (err, result) => (err ? reject(err) : resolve(result)));
+    });
+
+    const files = new Map<string, File>();
+    Object.entries(entries).forEach(([path, bytes]) => {
+      const name = path.split('/').pop()!;
+      if (name.startsWith('._') || name === '.DS_Store') return;
+      files.set(path, new File([bytes as BlobPart], name));
+    });
+    return files;
+  }
+}
@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
+import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js';
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js';
+
+// Served from public/decoders (copied out of node_modules by scripts/copy-decoders.js)
+const DRACO_PATH = '/decoders/draco/';
+const BASIS_PATH = '/decoders/basis/';
+
+export const COMPRESSION_EXTENSIONS = [
+  'KHR_draco_mesh_compression',
+  'EXT_meshopt_compression',
+  'KHR_meshopt_compression',
+  'KHR_texture_basisu',
+  'KHR_mesh_quantization',
+];
+
+/**
+ * CompressionDecoders
+ * Shares one Draco, Meshopt and KTX2 decoder setup across every GLTFLoader instance.
+ */
+export class CompressionDecoders {
+  private static dracoLoader: DRACOLoader | null = null;
+  private static ktx2Loader: KTX2Loader | null = null;
+
+  /**
+   * Attaches all decoders to a GLTFLoader. KTX2 needs a WebGL context for its capability
+   * probe, so contexts without one (workers) can leave it out.
+   */
+  static configure(loader: GLTFLoader, withKTX2 = true): GLTFLoader {
+    loader.setDRACOLoader(this.getDRACOLoader());
+    if (withKTX2) loader.setKTX2Loader(this.getKTX2Loader());
+    loader.setMeshoptDecoder(MeshoptDecoder);
+    return loader;
+  }
+
+  /**
+   * Lists the compression extensions a parsed glTF declares in extensionsUsed.
+   */
+  static getUsedExtensions(json: { extensionsUsed?: string[] }): string[] {
+    return (json.extensionsUsed || []).filter(ext => COMPRESSION_EXTENSIONS.includes(ext));
+  }
+
+  private static getDRACOLoader(): DRACOLoader {
+    if (!this.dracoLoader) {
+      this.dracoLoader = new DRACOLoader().setDecoderPath(DRACO_PATH);
+    }
+    return this.dracoLoader;
+  }
+
+  private static getKTX2Loader(): KTX2Loader {
+    if (!this.ktx2Loader) {
+      this.ktx2Loader = new KTX2Loader().setTranscoderPath(BASIS_PATH);
+      // Transcoder target formats only depend on GPU capabilities, so probe them with a
+      // short-lived renderer rather than waiting for the viewer canvas to mount.
+      const probe = new THREE.WebGLRenderer();
+      this.ktx2Loader.detectSupport(probe);
+      probe.dispose();
+      probe.forceContextLoss();
+    }
+    return this.ktx2Loader;
+  }
+}
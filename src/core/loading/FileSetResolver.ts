@@ -0,0 +1,124 @@
+import * as THREE from 'three';
+import type { ModelFileSet } from '@/types/model';
+
+const VIRTUAL_ROOT = 'model://files/';
+
+/**
+ * FileSetResolver
+ * Resolves the relative URIs of a multi-file model (glTF buffers, textures, ...) against
+ * the files the user dropped, instead of against a single blob URL.
+ */
+export class FileSetResolver {
+  readonly manager: THREE.LoadingManager;
+  readonly missing = new Set<string>();
+  private objectUrls = new Map<string, string>();
+  private lookup = new Map<string, File>();
+  // Requests started on the manager that haven't finished or failed yet
+  private pending = 0;
+  private idleWaiters: (() => void)[] = [];
+
+  constructor(private fileSet: ModelFileSet) {
+    fileSet.files.forEach((file, path) => {
+      this.lookup.set(FileSetResolver.normalize(path).toLowerCase(), file);
+    });
+
+    this.manager = new THREE.LoadingManager();
+    this.manager.setURLModifier((url) => this.resolve(url));
+
+    const { itemStart, itemEnd } = this.manager;
+    this.manager.itemStart = (url) => {
+      this.pending++;
+      itemStart(url);
+    };
+    this.manager.itemEnd = (url) => {
+      itemEnd(url);
+      if (--this.pending === 0) this.idleWaiters.splice(0).forEach(resolve => resolve());
+    };
+  }
+
+  /**
+   * Resolves once every request started on the manager has loaded or failed, for loaders that
+   * hand back their result before the textures it references are in (MTLLoader).
+   */
+  whenIdle(): Promise<void> {
+    if (this.pending === 0) return Promise.resolve();
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Virtual URL of the primary file. Loaders derive their resource path from it,
+   * so every relative reference comes back through the URL modifier.
+   */
+  get primaryUrl(): string {
+    return VIRTUAL_ROOT + FileSetResolver.normalize(this.fileSet.primaryPath);
+  }
+
+  /**
+   * Virtual directory of the primary file, for loaders that take an explicit path.
+   */
+  get basePath(): string {
+    return THREE.LoaderUtils.extractUrlBase(this.primaryUrl);
+  }
+
+  /**
+   * Maps a virtual URL to an object URL for the matching dropped file, or to the remote
+   * location for models opened from a URL. Anything else (data:, blob:, http:) passes through untouched.
+   */
+  resolve(url: string): string {
+    if (!url.startsWith(VIRTUAL_ROOT)) return url;
+
+    const path = FileSetResolver.normalize(decodeURIComponent(url.slice(VIRTUAL_ROOT.length)));
+    const file = this.findFile(path);
+    if (!file && this.fileSet.baseUrl) return new URL(path, this.fileSet.baseUrl).href;
+    if (!file) {
+      this.missing.add(path);
+      return url;
+    }
+
+    let objectUrl = this.objectUrls.get(path);
+    if (!objectUrl) {
+      objectUrl = URL.createObjectURL(file);
+      this.objectUrls.set(path, objectUrl);
+    }
+    return objectUrl;
+  }
+
+  /**
+   * Whether a virtual URL points at one of the dropped files.
+   */
+  has(url: string): boolean {
+    if (!url.startsWith(VIRTUAL_ROOT)) return false;
+    return !!this.findFile(FileSetResolver.normalize(decodeURIComponent(url.slice(VIRTUAL_ROOT.length))));
+  }
+
+  /**
+   * Revokes every object URL handed out to the loaders.
+   */
+  dispose() {
+    this.objectUrls.forEach(url => URL.revokeObjectURL(url));
+    this.objectUrls.clear();
+  }
+
+  private findFile(path: string): File | undefined {
+    const exact = this.lookup.get(path.toLowerCase());
+    if (exact) return exact;
+
+    // Exporters often write absolute or flattened paths, so fall back to a unique basename match
+    const baseName = path.split('/').pop()!.toLowerCase();
+    const candidates = Array.from(this.lookup.entries()).filter(([p]) => p.split('/').pop() === baseName);
+    return candidates.length === 1 ? candidates[0][1] : undefined;
+  }
+
+  /**
+   * Normalizes a relative path: forward slashes, no './' segments, '../' collapsed.
+   */
+  static normalize(path: string): string {
+    const parts: string[] = [];
+    path.replace(/\\/g, '/').split('/').forEach(part => {
+      if (part === '' || part === '.') return;
+      if (part === '..') parts.pop();
+      else parts.push(part);
+    });
+    return parts.join('/');
+  }
+}
@@ -0,0 +1,71 @@
+import type { LoadErrorCode } from '@/types/model';
+
+const TITLES: Record<LoadErrorCode, string> = {
+  unsupported_format: 'Unsupported file type',
+  missing_resource: 'Missing referenced files',
+  decoder_failure: 'Could not decode compressed data',
+  out_of_memory: 'Out of memory',
+  corrupt_header: 'File is corrupt or truncated',
+  not_found: 'Model not found',
+  network_error: 'Could not download model',
+  unknown: 'Failed to load',
+};
+
+const HINTS: Record<LoadErrorCode, string> = {
+  unsupported_format: 'Open a .glb, .gltf, .obj, .fbx, .stl, .ply, .3mf or .dae file, or a .zip containing one.',
+  missing_resource: 'Drop the whole folder or a .zip so the textures and buffers next to the model come along.',
+  decoder_failure: 'Make sure /decoders is being served (npm install copies it), or re-export the model without Draco, Meshopt or KTX2 compression.',
+  out_of_memory: 'Close other tabs, or decimate the model and downscale its textures before loading it here.',
+  corrupt_header: 'The file does not start the way its extension says it should. Re-export it from the authoring tool.',
+  not_found: 'Check the link: the file may have been moved or deleted, or the server may require signing in.',
+  network_error: 'The server has to allow cross-origin requests from this site (Access-Control-Allow-Origin), or the file can be served from /public instead.',
+  unknown: 'Check the browser console for the full error.',
+};
+
+/**
+ * ModelLoadError
+ * Classifies loader failures into a fixed set of codes, each with a title and an actionable hint
+ * for the error overlay.
+ */
+export class ModelLoadError extends Error {
+  constructor(readonly code: LoadErrorCode, message: string) {
+    super(message);
+    this.name = 'ModelLoadError';
+  }
+
+  get title(): string {
+    return TITLES[this.code];
+  }
+
+  get hint(): string {
+    return HINTS[this.code];
+  }
+
+  /**
+   * Maps whatever a three.js loader threw onto a load error code. Missing files win over
+   * everything else, since they are usually what made the parser fail in the first place.
+   */
+  static from(err: unknown, missing: Set<string> = new Set()): ModelLoadError {
+    if (err instanceof ModelLoadError) return err;
+
+    const message = err instanceof Error ? err.message : String(err);
+
+    if (missing.size > 0) {
+      return new ModelLoadError('missing_resource', `Not found in the dropped files: ${Array.from(missing).join(', ')}`);
+    }
+    if (err instanceof RangeError || /out of memory|allocation failed|invalid array length|invalid typed array length/i.test(message)) {
+      return new ModelLoadError('out_of_memory', message);
+    }
+    if (/draco|meshopt|ktx2|basis|transcoder|decod/i.test(message)) {
+      return new ModelLoadError('decoder_failure', message);
+    }
+    if (/header|magic|unknown format|version|unexpected token|json|legacy binary|unsupported asset|failed to parse/i.test(message)) {
+      return new ModelLoadError('corrupt_header', message);
+    }
+    return new ModelLoadError('unknown', message);
+  }
+
+  static isAbort(err: unknown): boolean {
+    return err instanceof DOMException && err.name === 'AbortError';
+  }
+}
@@ -0,0 +1,219 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { MTLLoader } from 'three/examples/jsm/loaders/MTLLoader.js';
+import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { ThreeMFLoader } from 'three/examples/jsm/loaders/3MFLoader.js';
+import { ColladaLoader } from 'three/examples/jsm/loaders/ColladaLoader.js';
+import type { ModelFileSet, ModelStats } from '@/types/model';
+import { FileSetResolver } from './FileSetResolver';
+import { CompressionDecoders } from './CompressionDecoders';
+import { ModelNormalizer } from './ModelNormalizer';
+import { ModelLoadError } from './ModelLoadError';
+
+export interface LoadedModel {
+  root: THREE.Object3D;
+  animations: THREE.AnimationClip[];
+  // Format-specific fields merged over computeModelStats()
+  extraStats: Partial<ModelStats>;
+}
+
+export interface ModelLoadOptions {
+  onProgress?: (percent: number) => void;
+  // three.js loaders can't be interrupted, so an abort rejects right away and the late result is dropped
+  signal?: AbortSignal;
+  // Workers have no WebGL context to probe KTX2 transcoder targets with
+  ktx2?: boolean;
+}
+
+/**
+ * ModelLoader
+ * Format dispatch for every supported model type. Shared by the viewer and the load worker.
+ */
+export class ModelLoader {
+  static readonly FORMATS = ['glb', 'gltf', 'obj', 'fbx', 'stl', 'ply', '3mf', 'dae'];
+
+  /**
+   * Formats whose loaders need no DOM (images decode through ImageBitmapLoader),
+   * so they can be parsed off the main thread.
+   */
+  static readonly WORKER_FORMATS = ['glb', 'gltf', 'stl', 'ply'];
+
+  static getExtension(fileSet: ModelFileSet): string {
+    return fileSet.primary.name.split('.').pop()?.toLowerCase() ?? '';
+  }
+
+  /**
+   * Loads the primary file of a file set. Rejects with a ModelLoadError, or with an
+   * AbortError once options.signal fires.
+   */
+  static async load(fileSet: ModelFileSet, resolver: FileSetResolver, options: ModelLoadOptions = {}): Promise<LoadedModel> {
+    const { signal } = options;
+    try {
+      const ext = this.getExtension(fileSet);
+      if (!this.FORMATS.includes(ext)) {
+        throw new ModelLoadError('unsupported_format', `.${ext} files can't be opened here.`);
+      }
+      await this.checkHeader(fileSet.primary, ext);
+      signal?.throwIfAborted();
+
+      const parsed = this.parse(fileSet, resolver, options);
+      if (!signal) return await parsed;
+
+      return await new Promise<LoadedModel>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        parsed
+          .then(resolve, reject)
+          .finally(() => signal.removeEventListener('abort', onAbort));
+      });
+    } catch (err) {
+      if (ModelLoadError.isAbort(err)) throw err;
+      throw ModelLoadError.from(err, resolver.missing);
+    }
+  }
+
+  /**
+   * Rejects files whose first bytes don't match their extension before a loader gets to
+   * misread them.
+   */
+  private static async checkHeader(file: File, ext: string) {
+    if (file.size === 0) throw new ModelLoadError('corrupt_header', `${file.name} is empty.`);
+
+    const head = new Uint8Array(await file.slice(0, 32).arrayBuffer());
+    const text = new TextDecoder().decode(head).replace(/^\uFEFF/, '').trimStart();
+    const isText = head.every(b => b >= 0x20 || b === 0x09 || b === 0x0a || b === 0x0d);
+
+    const valid: Record<string, boolean> = {
+      glb: text.startsWith('glTF'),
+      gltf: text.startsWith('{'),
+      fbx: text.startsWith('Kaydara FBX Binary') || isText,
+      ply: text.startsWith('ply'),
+      '3mf': head[0] === 0x50 && head[1] === 0x4b, // PK zip signature
+      dae: text.startsWith('<'),
+      // Binary STL has no magic; anything shorter than its 84-byte header that isn't ASCII STL is broken
+      stl: file.size >= 84 || text.startsWith('solid'),
+      obj: isText,
+    };
+
+    if (valid[ext] === false) {
+      throw new ModelLoadError('corrupt_header', `${file.name} doesn't have a valid .${ext} header.`);
+    }
+  }
+
+  private static parse(fileSet: ModelFileSet, resolver: FileSetResolver, options: ModelLoadOptions): Promise<LoadedModel> {
+    const ext = this.getExtension(fileSet);
+    const url = resolver.primaryUrl;
+    const fileName = fileSet.primary.name;
+
+    const onProgress = (e: ProgressEvent) => {
+      if (e.total) options.onProgress?.((e.loaded / e.total) * 100);
+    };
+
+    return new Promise<LoadedModel>((resolve, reject) => {
+      const done = (root: THREE.Object3D, animations: THREE.AnimationClip[], extraStats: Partial<ModelStats> = {}) =>
+        resolve({ root, animations, extraStats });
+
+      if (ext === 'glb' || ext === 'gltf') {
+        CompressionDecoders.configure(new GLTFLoader(resolver.manager), options.ktx2 ?? true).load(
+          url,
+          (gltf) => done(gltf.scene, gltf.animations || [], {
+            compression: CompressionDecoders.getUsedExtensions(gltf.parser.json),
+          }),
+          onProgress,
+          reject,
+        );
+      } else if (ext === 'obj') {
+        new THREE.FileLoader(resolver.manager).load(
+          url,
+          async (text) => {
+            if (options.signal?.aborted) return;
+            try {
+              const objText = text as string;
+              const objLoader = new OBJLoader(resolver.manager);
+
+              // Apply the first material library the OBJ references (or a same-named .mtl) that was dropped with it
+              const libraries = Array.from(objText.matchAll(/^mtllib\s+(.+)$/gm), m => m[1].trim());
+              libraries.push(fileName.replace(/\.obj$/i, '.mtl'));
+              const mtlUrl = libraries.map(lib => resolver.basePath + lib).find(u => resolver.has(u));
+              if (mtlUrl) {
+                const materials = await new MTLLoader(resolver.manager).loadAsync(mtlUrl);
+                materials.preload();
+                objLoader.setMaterials(materials);
+              }
+              const root = objLoader.parse(objText);
+
+              // The material library only queues its textures; wait for them so their images can be measured
+              await resolver.whenIdle();
+              if (options.signal?.aborted) return;
+              done(root, []); // OBJ typically doesn't have animations
+            } catch (err) {
+              reject(err);
+            }
+          },
+          onProgress,
+          reject,
+        );
+      } else if (ext === 'fbx') {
+        // FBX embeds textures as Video nodes which FBXLoader turns into blob:/data: URLs,
+        // while external references resolve against the dropped files.
+        let embeddedTextures = 0;
+        let externalTextures = 0;
+        resolver.manager.setURLModifier((resourceUrl) => {
+          if (resourceUrl !== url) {
+            if (resourceUrl.startsWith('blob:') || resourceUrl.startsWith('data:')) embeddedTextures++;
+            else externalTextures++;
+          }
+          return resolver.resolve(resourceUrl);
+        });
+
+        new THREE.FileLoader(resolver.manager).setResponseType('arraybuffer').load(
+          url,
+          (buffer) => {
+            if (options.signal?.aborted) return;
+            try {
+              const group = new FBXLoader(resolver.manager).parse(buffer as ArrayBuffer, resolver.basePath);
+              done(group, group.animations || [], {
+                unitScale: group.userData.unitScaleFactor ?? 1,
+                embeddedTextures,
+                externalTextures,
+              });
+            } catch (err) {
+              reject(err);
+            }
+          },
+          onProgress,
+          reject,
+        );
+      } else if (ext === 'stl' || ext === 'ply') {
+        const loader = ext === 'stl' ? new STLLoader(resolver.manager) : new PLYLoader(resolver.manager);
+        loader.load(
+          url,
+          (geometry) => done(ModelNormalizer.fromGeometry(geometry, fileName.replace(/\.[^.]+$/, '')), []),
+          onProgress,
+          reject,
+        );
+      } else if (ext === '3mf') {
+        new ThreeMFLoader(resolver.manager).load(
+          url,
+          (group) => done(ModelNormalizer.normalize(group), []),
+          onProgress,
+          reject,
+        );
+      } else if (ext === 'dae') {
+        new ColladaLoader(resolver.manager).load(
+          url,
+          (collada) => {
+            // ColladaLoader logs and returns null instead of throwing on malformed XML
+            if (!collada) return reject(new Error('Failed to parse Collada document'));
+            done(ModelNormalizer.normalize(collada.scene), collada.scene.animations || []);
+          },
+          onProgress,
+          reject,
+        );
+      }
+    });
+  }
+}
@@ -0,0 +1,61 @@
+import * as THREE from 'three';
+
+/**
+ * ModelNormalizer
+ * Brings loader output that is not already a shaded scene graph (raw STL/PLY geometry,
+ * scans without normals, vertex-coloured meshes) into the shape the rest of the
+ * inspector expects: a root Object3D of THREE.Mesh nodes with standard materials.
+ */
+export class ModelNormalizer {
+  /**
+   * Wraps a bare BufferGeometry (STL, PLY) in a named Mesh under a Group root.
+   */
+  static fromGeometry(geometry: THREE.BufferGeometry, name: string): THREE.Group {
+    const hasVertexColors = !!geometry.getAttribute('color');
+    const material = new THREE.MeshStandardMaterial({
+      name: hasVertexColors ? 'VertexColor' : 'Default',
+      color: hasVertexColors ? 0xffffff : 0xb0b0b0,
+      vertexColors: hasVertexColors,
+      metalness: 0,
+      roughness: 0.7,
+    });
+
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.name = name;
+
+    const root = new THREE.Group();
+    root.name = name;
+    root.add(mesh);
+
+    this.normalize(root);
+    return root;
+  }
+
+  /**
+   * Fills in data that downstream analysis and debug modes rely on.
+   */
+  static normalize(root: THREE.Object3D): THREE.Object3D {
+    root.traverse((node) => {
+      if (!(node instanceof THREE.Mesh)) return;
+
+      const geometry = node.geometry as THREE.BufferGeometry;
+      // Scans often ship positions only; lighting, normals debug and flat mode need normals
+      if (!geometry.getAttribute('normal') && geometry.getAttribute('position')) {
+        geometry.computeVertexNormals();
+      }
+      if (!geometry.boundingBox) geometry.computeBoundingBox();
+
+      // Vertex colours are ignored unless the material opts in
+      const mats = Array.isArray(node.material) ? node.material : [node.material];
+      if (geometry.getAttribute('color')) {
+        mats.forEach(mat => {
+          if (!mat.vertexColors) {
+            mat.vertexColors = true;
+            mat.needsUpdate = true;
+          }
+        });
+      }
+    });
+    return root;
+  }
+}
@@ -0,0 +1,85 @@
+import type { ModelFileSet } from '@/types/model';
+import { ModelLoadError } from './ModelLoadError';
+
+// Used when the URL path carries no extension the loaders can dispatch on
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'model/gltf-binary': 'glb',
+  'model/gltf+json': 'gltf',
+  'model/obj': 'obj',
+  'model/stl': 'stl',
+  'model/vnd.collada+xml': 'dae',
+  'model/3mf': '3mf',
+};
+
+export interface RemoteFetchOptions {
+  onProgress?: (percent: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * RemoteModelFetcher
+ * Downloads a model from a URL (absolute, or relative to the app for files in /public)
+ * and wraps it as a file set, so it goes through the same load path as a dropped file.
+ */
+export class RemoteModelFetcher {
+  static async fetch(src: string, options: RemoteFetchOptions = {}): Promise<ModelFileSet> {
+    const url = new URL(src, window.location.href);
+
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: options.signal });
+    } catch (err) {
+      if (ModelLoadError.isAbort(err)) throw err;
+      // fetch() reports CORS rejections and unreachable hosts the same way
+      throw new ModelLoadError('network_error', `${url.host} could not be reached or blocked the cross-origin request.`);
+    }
+
+    if (response.status === 404 || response.status === 410) {
+      throw new ModelLoadError('not_found', `${url.href} returned ${response.status}.`);
+    }
+    if (!response.ok) {
+      throw new ModelLoadError('network_error', `${url.href} returned ${response.status} ${response.statusText}.`);
+    }
+
+    const blob = await this.readBody(response, options.onProgress);
+    const name = this.fileName(url, response);
+    const file = new File([blob], name, { type: blob.type });
+
+    return {
+      primary: file,
+      primaryPath: name,
+      files: new Map([[name, file]]),
+      baseUrl: new URL('.', url).href,
+    };
+  }
+
+  private static async readBody(response: Response, onProgress?: (percent: number) => void): Promise<Blob> {
+    const type = response.headers.get('Content-Type') ?? '';
+    // Content-Length is the encoded size, so compressed responses can overshoot; clamp the bar
+    const total = Number(response.headers.get('Content-Length')) || 0;
+    if (!response.body || !total || !onProgress) return response.blob();
+
+    const reader = response.body.getReader();
+    const chunks: BlobPart[] = [];
+    let received = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value as BlobPart);
+      received += value.byteLength;
+      onProgress(Math.min(100, (received / total) * 100));
+    }
+    return new Blob(chunks, { type });
+  }
+
+  private static fileName(url: URL, response: Response): string {
+    const disposition = response.headers.get('Content-Disposition');
+    const fromHeader = disposition?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i)?.[1];
+    const name = decodeURIComponent(fromHeader ?? url.pathname.split('/').pop() ?? '') || 'model';
+    if (/\.[a-z0-9]+$/i.test(name)) return name;
+
+    const type = response.headers.get('Content-Type')?.split(';')[0].trim() ?? '';
+    const ext = CONTENT_TYPE_EXTENSIONS[type];
+    return ext ? `${name}.${ext}` : name;
+  }
+}
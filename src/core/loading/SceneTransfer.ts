@@ -0,0 +1,201 @@
+import * as THREE from 'three';
+
+type TypedArray = THREE.TypedArray;
+
+interface TransferredAttribute {
+  array: TypedArray;
+  itemSize: number;
+  normalized: boolean;
+}
+
+interface TransferredGeometry {
+  uuid: string;
+  name: string;
+  attributes: Record<string, TransferredAttribute>;
+  morphAttributes: Record<string, TransferredAttribute[]>;
+  morphTargetsRelative: boolean;
+  index: TransferredAttribute | null;
+  groups: { start: number; count: number; materialIndex?: number }[];
+  drawRange: { start: number; count: number };
+  userData: Record<string, unknown>;
+}
+
+/**
+ * Structured-cloneable form of a loaded scene. Hierarchy, materials, skeletons and clips use
+ * three.js' own JSON format; geometry buffers and decoded images travel as transferables
+ * so nothing heavy is copied or re-encoded.
+ */
+export interface TransferredScene {
+  object: unknown;
+  materials: unknown[];
+  textures: unknown[];
+  images: { uuid: string; data: unknown }[];
+  skeletons: unknown[];
+  animations: unknown[];
+  clips: THREE.AnimationClipJSON[];
+  geometries: TransferredGeometry[];
+}
+
+// ObjectLoader internals used by ObjectLoader.parse() that the public typings leave out or lag behind on
+interface ObjectLoaderInternals {
+  parseObject(
+    data: unknown,
+    geometries: Record<string, THREE.BufferGeometry>,
+    materials: Record<string, THREE.Material>,
+    textures: Record<string, THREE.Texture>,
+    animations: Record<string, THREE.AnimationClip>,
+  ): THREE.Object3D;
+  parseSkeletons(json: unknown, object: THREE.Object3D): Record<string, THREE.Skeleton>;
+  bindSkeletons(object: THREE.Object3D, skeletons: Record<string, THREE.Skeleton>): void;
+  bindLightTargets(object: THREE.Object3D): void;
+}
+
+/**
+ * SceneTransfer
+ * Moves a parsed scene from the load worker to the main thread, preserving every UUID so
+ * mesh info and analysis computed in the worker still point at the rebuilt objects.
+ */
+export class SceneTransfer {
+  static serialize(root: THREE.Object3D, clips: THREE.AnimationClip[]): { scene: TransferredScene; transfer: Transferable[] } {
+    const transfer = new Set<Transferable>();
+    const geometries = new Map<string, TransferredGeometry>();
+    const images = new Map<string, { uuid: string; data: unknown }>();
+
+    // Pre-filled library entries make Object3D.toJSON reference these by UUID instead of serializing them
+    const meta = {
+      geometries: {} as Record<string, unknown>,
+      materials: {} as Record<string, unknown>,
+      textures: {} as Record<string, unknown>,
+      images: {} as Record<string, unknown>,
+      shapes: {},
+      skeletons: {} as Record<string, unknown>,
+      animations: {} as Record<string, unknown>,
+      nodes: {},
+    };
+
+    root.traverse((node) => {
+      const { geometry, material } = node as THREE.Mesh;
+
+      if (geometry?.isBufferGeometry && !geometries.has(geometry.uuid)) {
+        geometries.set(geometry.uuid, this.serializeGeometry(geometry, transfer));
+        meta.geometries[geometry.uuid] = { uuid: geometry.uuid };
+      }
+
+      if (!material) return;
+      (Array.isArray(material) ? material : [material]).forEach((mat) => {
+        Object.values(mat).forEach((value) => {
+          if (!(value instanceof THREE.Texture) || images.has(value.source.uuid)) return;
+          if ((value as THREE.CompressedTexture).isCompressedTexture) {
+            throw new Error('Compressed textures cannot be transferred from the worker');
+          }
+          const data = value.source.data;
+          if (typeof ImageBitmap !== 'undefined' && data instanceof ImageBitmap) transfer.add(data);
+          images.set(value.source.uuid, { uuid: value.source.uuid, data });
+          meta.images[value.source.uuid] = { uuid: value.source.uuid };
+        });
+      });
+    });
+
+    const json = root.toJSON(meta as unknown as THREE.JSONMeta);
+
+    return {
+      scene: {
+        object: json.object,
+        materials: Object.values(meta.materials),
+        textures: Object.values(meta.textures),
+        images: Array.from(images.values()),
+        skeletons: Object.values(meta.skeletons),
+        animations: Object.values(meta.animations),
+        clips: clips.map(clip => THREE.AnimationClip.toJSON(clip)),
+        geometries: Array.from(geometries.values()),
+      },
+      transfer: Array.from(transfer),
+    };
+  }
+
+  static deserialize(scene: TransferredScene): { root: THREE.Object3D; animations: THREE.AnimationClip[] } {
+    const loader = new THREE.ObjectLoader();
+    const internals = loader as unknown as ObjectLoaderInternals;
+
+    const sources: Record<string, THREE.Source> = {};
+    scene.images.forEach(({ uuid, data }) => {
+      const source = new THREE.Source(data);
+      source.uuid = uuid;
+      sources[uuid] = source;
+    });
+
+    const geometries: Record<string, THREE.BufferGeometry> = {};
+    scene.geometries.forEach(g => { geometries[g.uuid] = this.deserializeGeometry(g); });
+
+    const textures = loader.parseTextures(scene.textures, sources);
+    const materials = loader.parseMaterials(scene.materials, textures);
+    const animations = loader.parseAnimations(scene.animations);
+
+    const root = internals.parseObject(scene.object, geometries, materials, textures, animations);
+    internals.bindSkeletons(root, internals.parseSkeletons(scene.skeletons, root));
+    internals.bindLightTargets(root);
+
+    return { root, animations: scene.clips.map(clip => THREE.AnimationClip.parse(clip)) };
+  }
+
+  private static serializeAttribute(
+    attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+    transfer: Set<Transferable>,
+  ): TransferredAttribute {
+    const { itemSize, normalized } = attribute;
+    let array = attribute.array;
+
+    // Interleaved buffers are shared between attributes, so copy each one out into its own array
+    if (attribute instanceof THREE.InterleavedBufferAttribute) {
+      array = new (array.constructor as new (length: number) => TypedArray)(attribute.count * itemSize);
+      for (let i = 0; i < attribute.count; i++) {
+        for (let c = 0; c < itemSize; c++) array[i * itemSize + c] = attribute.getComponent(i, c);
+      }
+    }
+
+    transfer.add(array.buffer as ArrayBuffer);
+    return { array, itemSize, normalized };
+  }
+
+  private static serializeGeometry(geometry: THREE.BufferGeometry, transfer: Set<Transferable>): TransferredGeometry {
+    const attributes: Record<string, TransferredAttribute> = {};
+    Object.entries(geometry.attributes).forEach(([name, attr]) => {
+      attributes[name] = this.serializeAttribute(attr, transfer);
+    });
+
+    const morphAttributes: Record<string, TransferredAttribute[]> = {};
+    Object.entries(geometry.morphAttributes).forEach(([name, list]) => {
+      morphAttributes[name] = list.map(attr => this.serializeAttribute(attr, transfer));
+    });
+
+    return {
+      uuid: geometry.uuid,
+      name: geometry.name,
+      attributes,
+      morphAttributes,
+      morphTargetsRelative: geometry.morphTargetsRelative,
+      index: geometry.index ? this.serializeAttribute(geometry.index, transfer) : null,
+      groups: geometry.groups.map(g => ({ ...g })),
+      drawRange: { ...geometry.drawRange },
+      userData: geometry.userData,
+    };
+  }
+
+  private static deserializeGeometry(data: TransferredGeometry): THREE.BufferGeometry {
+    const toAttribute = (a: TransferredAttribute) => new THREE.BufferAttribute(a.array, a.itemSize, a.normalized);
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.uuid = data.uuid;
+    geometry.name = data.name;
+    Object.entries(data.attributes).forEach(([name, attr]) => geometry.setAttribute(name, toAttribute(attr)));
+    Object.entries(data.morphAttributes).forEach(([name, list]) => {
+      geometry.morphAttributes[name] = list.map(toAttribute);
+    });
+    geometry.morphTargetsRelative = data.morphTargetsRelative;
+    if (data.index) geometry.setIndex(toAttribute(data.index));
+    data.groups.forEach(g => geometry.addGroup(g.start, g.count, g.materialIndex));
+    geometry.setDrawRange(data.drawRange.start, data.drawRange.count);
+    geometry.userData = data.userData;
+    return geometry;
+  }
+}
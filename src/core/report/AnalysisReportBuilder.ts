@@ -0,0 +1,63 @@
+import * as THREE from 'three';
+import packageJson from '../../../package.json';
+import { SceneGraphBuilder } from '@/core/scene/SceneGraphBuilder';
+import type {
+  AnalysisReportDocument,
+  ModelStats,
+  OptimizationEvent,
+  PerformanceStats,
+  ReportNodeRef,
+  SceneAnalysisReport,
+  SceneDiff,
+} from '@/types/model';
+
+// Bump on breaking changes and ship a matching public/schemas/analysis-report.v<N>.json
+export const REPORT_SCHEMA_VERSION = 1;
+
+export interface AnalysisReportInput {
+  scene: THREE.Object3D | null;
+  stats: ModelStats | null;
+  performance: PerformanceStats | null;
+  analysis: SceneAnalysisReport | null;
+  history: OptimizationEvent[];
+  diff?: SceneDiff | null;
+}
+
+/**
+ * AnalysisReportBuilder
+ * Turns the viewer's analysis state into a versioned, plain-JSON document for asset pipelines.
+ */
+export class AnalysisReportBuilder {
+  static build(input: AnalysisReportInput, generatedAt = new Date()): AnalysisReportDocument {
+    const { scene, stats, performance, analysis, history, diff = null } = input;
+    const nodes = scene ? SceneGraphBuilder.indexPaths(scene) : new Map<string, ReportNodeRef>();
+    const resolve = (uuid: string) => nodes.get(uuid) ?? { uuid, name: null, path: null };
+
+    return {
+      schema: 'thenext3d/analysis-report',
+      schemaVersion: REPORT_SCHEMA_VERSION,
+      generator: { name: 'TheNext3D', version: packageJson.version },
+      generatedAt: generatedAt.toISOString(),
+      source: {
+        fileName: stats?.fileName ?? null,
+        fileType: stats?.fileType ?? null,
+        fileSize: stats?.fileSize ?? null,
+      },
+      stats,
+      performance,
+      analysis: analysis && {
+        ...analysis,
+        issues: analysis.issues.map(issue => ({
+          ...issue,
+          affectedNodes: (issue.affectedUuids ?? []).map(resolve),
+        })),
+      },
+      history: history.map(event => ({ ...event, timestamp: new Date(event.timestamp).toISOString() })),
+      diff,
+    };
+  }
+
+  static toBlob(report: AnalysisReportDocument): Blob {
+    return new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+  }
+}
@@ -0,0 +1,220 @@
+import type { AnalysisReportDocument, ReportIssue, ReportSnapshot, SceneDiff, SnapshotDelta } from '@/types/model';
+
+const SEVERITY_COLORS: Record<ReportIssue['severity'], string> = {
+  high: '#dc2626',
+  medium: '#d97706',
+  low: '#2563eb',
+};
+
+const STATUS_LABELS: Record<NonNullable<AnalysisReportDocument['analysis']>['status'], string> = {
+  optimized: 'Highly Optimized',
+  improvable: 'Improvable Structure',
+  heavy: 'Structural Debt Detected',
+};
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 32px; font: 14px/1.5 -apple-system, 'Segoe UI', Inter, sans-serif; color: #1a1a26; background: #f6f6fa; }
+  main { max-width: 960px; margin: 0 auto; }
+  h1 { margin: 0; font-size: 22px; }
+  h2 { margin: 32px 0 12px; font-size: 15px; text-transform: uppercase; letter-spacing: 0.06em; color: #55557a; }
+  section { background: #fff; border: 1px solid #e2e2ec; border-radius: 10px; padding: 16px 20px; }
+  .meta { color: #6b6b8a; font-size: 12px; margin-top: 4px; }
+  .mono { font-family: 'JetBrains Mono', Menlo, Consolas, monospace; font-size: 12px; }
+  .score { display: flex; align-items: baseline; gap: 12px; }
+  .score strong { font-size: 40px; }
+  .badge { display: inline-block; padding: 2px 8px; border-radius: 10px; color: #fff; font-size: 11px; font-weight: 700; text-transform: uppercase; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { padding: 6px 8px; border-bottom: 1px solid #eeeef4; text-align: left; vertical-align: top; }
+  th { color: #6b6b8a; font-weight: 500; width: 40%; }
+  .issue { border-left: 3px solid; padding: 8px 12px; margin-bottom: 10px; }
+  .issue:last-child { margin-bottom: 0; }
+  .issue p { margin: 4px 0; }
+  .nodes { margin: 6px 0 0; padding-left: 18px; color: #55557a; }
+  .bar { display: flex; align-items: center; gap: 10px; margin: 4px 0; }
+  .bar span:first-child { width: 48px; }
+  .bar div { height: 10px; border-radius: 5px; background: #7c6af7; }
+  .up { color: #d97706; } .down { color: #059669; }
+  .shots { display: grid; grid-template-columns: repeat(2, 1fr); gap: 12px; }
+  figure { margin: 0; }
+  figure img { width: 100%; border-radius: 8px; border: 1px solid #e2e2ec; display: block; }
+  figcaption { font-size: 12px; color: #55557a; margin-top: 4px; }
+  @media print { body { background: #fff; padding: 0; } section { break-inside: avoid; } }
+`;
+
+// Largest first; Object.entries would put the integer-like '512' key ahead of the others
+const TEXTURE_BUCKETS = ['4K+', '2K', '1K', '512', '<256'] as const;
+
+// Affected nodes listed per issue before the rest is summarized as a count
+const MAX_LISTED_NODES = 12;
+
+/**
+ * HtmlReportRenderer
+ * Renders an analysis report as a single offline HTML file (inline styles, screenshots as data URLs).
+ */
+export class HtmlReportRenderer {
+  static render(report: AnalysisReportDocument, snapshot: ReportSnapshot): string {
+    const title = `Inspection report: ${report.source.fileName ?? 'model'}`;
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${esc(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+  <h1>${esc(title)}</h1>
+  <div class="meta">${esc(report.generator.name)} ${esc(report.generator.version)} · ${esc(new Date(report.generatedAt).toLocaleString())}</div>
+  ${this.renderScore(report)}
+  ${this.renderBreakdown(report)}
+  ${this.renderBudgets(report)}
+  ${this.renderStats(report)}
+  ${this.renderIssues(report)}
+  ${report.diff ? this.renderDiff(report.diff) : ''}
+  ${this.renderTextures(snapshot)}
+  ${this.renderGpu(snapshot)}
+  ${this.renderScreenshots(snapshot)}
+</main>
+</body>
+</html>
+`;
+  }
+
+  static toBlob(html: string): Blob {
+    return new Blob([html], { type: 'text/html' });
+  }
+
+  private static renderScore(report: AnalysisReportDocument): string {
+    const analysis = report.analysis;
+    if (!analysis) return '<h2>Score</h2><section>The scene has not been analyzed.</section>';
+    const color = analysis.status === 'optimized' ? '#059669' : analysis.status === 'improvable' ? '#d97706' : '#dc2626';
+    return `<h2>Score</h2>
+  <section class="score">
+    <strong style="color:${color}">${analysis.score}</strong><span>/ 100</span>
+    <span class="badge" style="background:${color}">${esc(STATUS_LABELS[analysis.status])}</span>
+  </section>`;
+  }
+
+  private static renderBreakdown(report: AnalysisReportDocument): string {
+    const breakdown = report.analysis?.breakdown ?? [];
+    if (breakdown.length === 0) return '';
+    const rows = breakdown.map(item =>
+      `<tr><th>${esc(item.title)}</th><td>${item.measured.toLocaleString()} ${esc(item.unit)} (threshold ${item.threshold.toLocaleString()})</td>`
+      + `<td style="color:#dc2626">−${item.weight}</td></tr>`);
+    return `<h2>Score breakdown</h2>
+  <section><table><tr><th>Starting score</th><td></td><td>100</td></tr>${rows.join('')}</table></section>`;
+  }
+
+  private static renderBudgets(report: AnalysisReportDocument): string {
+    const analysis = report.analysis;
+    if (!analysis || analysis.budgets.length === 0) return '';
+    const rows = analysis.budgets.map((check) => {
+      const over = check.exceeded
+        ? `<span style="color:#dc2626">+${Math.round(check.overBy * 100)}% over</span>`
+        : 'Within budget';
+      return `<tr><th>${esc(check.label)}</th><td>${check.actual.toLocaleString()} / ${check.limit.toLocaleString()} ${esc(check.unit)}</td><td>${over}</td></tr>`;
+    });
+    return `<h2>Budget: ${esc(analysis.profile.name)}</h2>
+  <section><table>${rows.join('')}</table></section>`;
+  }
+
+  private static renderStats(report: AnalysisReportDocument): string {
+    const stats = report.stats;
+    if (!stats) return '';
+    const size = stats.boundingBox?.size;
+    const rows: [string, string][] = [
+      ['File', [stats.fileName, stats.fileType, stats.fileSize].filter(Boolean).join(' · ')],
+      ['Meshes', stats.totalMeshes.toLocaleString()],
+      ['Vertices', stats.totalVertices.toLocaleString()],
+      ['Triangles', stats.totalTriangles.toLocaleString()],
+      ['Materials', `${stats.uniqueMaterials} unique / ${stats.totalMaterials} total`],
+      ['Animations', stats.hasAnimations ? String(stats.animationCount) : 'None'],
+    ];
+    if (size) rows.push(['Bounding box', `${size.x.toFixed(3)} × ${size.y.toFixed(3)} × ${size.z.toFixed(3)}`]);
+    if (stats.compression?.length) rows.push(['Compression', stats.compression.join(', ')]);
+    if (report.analysis) rows.push(['Draw calls', String(report.analysis.stats.drawCalls)]);
+
+    return `<h2>Model</h2>
+  <section><table>${rows.map(([k, v]) => `<tr><th>${esc(k)}</th><td>${esc(v)}</td></tr>`).join('')}</table></section>`;
+  }
+
+  private static renderIssues(report: AnalysisReportDocument): string {
+    const issues = report.analysis?.issues ?? [];
+    if (issues.length === 0) return '<h2>Issues</h2><section>No structural issues found.</section>';
+
+    const items = issues.map((issue) => {
+      const color = SEVERITY_COLORS[issue.severity];
+      const listed = issue.affectedNodes.slice(0, MAX_LISTED_NODES);
+      const more = issue.affectedNodes.length - listed.length;
+      const nodes = listed.length === 0 ? '' : `<ul class="nodes mono">${listed
+        .map(node => `<li>${esc(node.path ?? `${node.uuid} (removed)`)}</li>`)
+        .join('')}${more > 0 ? `<li>… ${more} more</li>` : ''}</ul>`;
+      return `<div class="issue" style="border-color:${color}">
+      <span class="badge" style="background:${color}">${esc(issue.severity)}</span>
+      <strong>${esc(issue.title)}</strong>${issue.state && issue.state !== 'idle' ? ` <span class="meta">(${esc(issue.state)})</span>` : ''}
+      <p>${esc(issue.description)}</p>${nodes}
+    </div>`;
+    });
+    return `<h2>Issues (${issues.length})</h2>\n  <section>${items.join('\n    ')}</section>`;
+  }
+
+  private static renderDiff(diff: SceneDiff): string {
+    const num = (n: number) => n.toLocaleString();
+    const bytes = (n: number) => `${(n / 1024 / 1024).toFixed(2)} MB`;
+    const row = (label: string, d: SnapshotDelta, format: (n: number) => string) => {
+      const change = d.after - d.before;
+      const percent = d.before > 0 && change !== 0 ? ` <span class="${change < 0 ? 'down' : 'up'}">${change > 0 ? '+' : ''}${Math.round((change / d.before) * 100)}%</span>` : '';
+      return `<tr><th>${esc(label)}</th><td>${format(d.before)} → <strong>${format(d.after)}</strong>${percent}</td></tr>`;
+    };
+    const nodeList = (title: string, nodes: SceneDiff['addedNodes']) => nodes.length === 0 ? '' :
+      `<p><strong>${nodes.length} ${title}</strong></p><ul class="nodes mono">${nodes.slice(0, MAX_LISTED_NODES)
+        .map(node => `<li>${esc(node.type)} ${esc(node.path)}</li>`).join('')}${nodes.length > MAX_LISTED_NODES ? `<li>… ${nodes.length - MAX_LISTED_NODES} more</li>` : ''}</ul>`;
+
+    return `<h2>Before / after optimization</h2>
+  <section>
+    <div class="meta">${esc(diff.from.label)} → ${esc(diff.to.label)}</div>
+    <table>
+      ${row('Draw calls', diff.drawCalls, num)}
+      ${row('Triangles', diff.triangles, num)}
+      ${row('Texture memory', diff.textureMemory, bytes)}
+      ${row('Estimated file size', diff.estimatedFileSize, bytes)}
+      ${diff.materials.map(m => row(`Draw calls: ${m.name}`, m, num)).join('')}
+    </table>
+    ${nodeList('nodes added', diff.addedNodes)}
+    ${nodeList('nodes removed', diff.removedNodes)}
+  </section>`;
+  }
+
+  private static renderTextures(snapshot: ReportSnapshot): string {
+    const counts = snapshot.textureDistribution;
+    const max = Math.max(1, ...TEXTURE_BUCKETS.map(res => counts[res]));
+    const bars = TEXTURE_BUCKETS.map(res =>
+      `<div class="bar"><span class="mono">${esc(res)}</span><div style="width:${Math.round((counts[res] / max) * 70)}%"></div><span>${counts[res]}</span></div>`);
+    return `<h2>Texture resolutions</h2>\n  <section>${bars.join('')}</section>`;
+  }
+
+  private static renderGpu(snapshot: ReportSnapshot): string {
+    const { gpu } = snapshot;
+    const color = gpu.riskLevel === 'HIGH' ? '#dc2626' : gpu.riskLevel === 'MEDIUM' ? '#d97706' : '#059669';
+    return `<h2>GPU rendering risk</h2>
+  <section><table>
+    <tr><th>Risk level</th><td><span class="badge" style="background:${color}">${esc(gpu.riskLevel)}</span></td></tr>
+    <tr><th>Fragment stress score</th><td>${gpu.stressScore} / 100</td></tr>
+    <tr><th>Transparent materials</th><td>${gpu.transparentMaterials}</td></tr>
+    <tr><th>Double-sided materials</th><td>${gpu.doubleSidedMaterials}</td></tr>
+  </table></section>`;
+  }
+
+  private static renderScreenshots(snapshot: ReportSnapshot): string {
+    if (snapshot.screenshots.length === 0) return '';
+    const figures = snapshot.screenshots.map(shot =>
+      `<figure><img src="${shot.dataUrl}" alt="${esc(shot.label)}"><figcaption>${esc(shot.label)}</figcaption></figure>`);
+    return `<h2>Views</h2>\n  <section class="shots">${figures.join('')}</section>`;
+  }
+}
+
+function esc(value: string): string {
+  return value.replace(/[&<>"']/g, ch => `&#${ch.charCodeAt(0)};`);
+}
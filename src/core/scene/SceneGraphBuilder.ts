@@ -1,5 +1,5 @@
 import * as THREE from 'three';
-import { SceneNode } from '@/types/model';
+import { ReportNodeRef, SceneNode } from '@/types/model';
 
 export class SceneGraphBuilder {
   /**
@@ -46,4 +46,20 @@ export class SceneGraphBuilder {
 
     return node;
   }
+
+  /**
+   * Maps every node under `root` to its name and slash-separated path from the root.
+   * Unnamed nodes appear as Type[siblingIndex] so paths stay readable and mostly unique.
+   */
+  static indexPaths(root: THREE.Object3D): Map<string, ReportNodeRef> {
+    const nodes = new Map<string, ReportNodeRef>();
+    const visit = (node: THREE.Object3D, parentPath: string | null, index: number) => {
+      const segment = node.name || `${node.type}[${index}]`;
+      const path = parentPath === null ? segment : `${parentPath}/${segment}`;
+      nodes.set(node.uuid, { uuid: node.uuid, name: node.name || null, path });
+      node.children.forEach((child, i) => visit(child, path, i));
+    };
+    visit(root, null, 0);
+    return nodes;
+  }
 }
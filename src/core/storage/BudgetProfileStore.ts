@@ -0,0 +1,44 @@
+import { BudgetProfiles } from '@/core/analysis/BudgetProfiles';
+import type { BudgetProfile } from '@/types/model';
+
+const PROFILES_KEY = 'thenext3d:budget-profiles';
+const ACTIVE_KEY = 'thenext3d:budget-profile';
+
+/**
+ * BudgetProfileStore
+ * Keeps custom budget profiles and the active profile in localStorage between visits.
+ */
+export class BudgetProfileStore {
+  static loadCustom(): BudgetProfile[] {
+    try {
+      const stored = localStorage.getItem(PROFILES_KEY);
+      return stored ? BudgetProfiles.sanitize(JSON.parse(stored)) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  static saveCustom(profiles: BudgetProfile[]) {
+    try {
+      localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+    } catch (err) {
+      console.warn('Could not save budget profiles:', err);
+    }
+  }
+
+  static loadActiveId(): string | null {
+    try {
+      return localStorage.getItem(ACTIVE_KEY);
+    } catch {
+      return null;
+    }
+  }
+
+  static saveActiveId(id: string) {
+    try {
+      localStorage.setItem(ACTIVE_KEY, id);
+    } catch (err) {
+      console.warn('Could not save the active budget profile:', err);
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import type { ModelFileSet, RecentModel } from '@/types/model';
+
+const DB_NAME = 'thenext3d';
+const DB_VERSION = 1;
+const STORE = 'recent-models';
+
+// Oldest entries are evicted once either limit is exceeded
+const MAX_ENTRIES = 12;
+const MAX_TOTAL_BYTES = 512 * 1024 * 1024;
+
+const THUMBNAIL_WIDTH = 192;
+const THUMBNAIL_HEIGHT = 144;
+
+/**
+ * RecentModelsStore
+ * Keeps recently opened models (every file of the set, plus a thumbnail and last stats/score)
+ * in IndexedDB so they can be reopened without dragging the files in again.
+ */
+export class RecentModelsStore {
+  private static db: Promise<IDBDatabase> | null = null;
+
+  static idFor(fileSet: ModelFileSet): string {
+    return `${fileSet.primaryPath}:${fileSet.primary.size}:${fileSet.primary.lastModified}`;
+  }
+
+  static async list(): Promise<RecentModel[]> {
+    const entries = await this.request<RecentModel[]>('readonly', store => store.getAll());
+    return entries.sort((a, b) => b.openedAt - a.openedAt);
+  }
+
+  /**
+   * Records a file set as just opened, keeping any thumbnail/stats from a previous visit.
+   * Returns the entry id for later update() calls.
+   */
+  static async save(fileSet: ModelFileSet): Promise<string> {
+    const id = this.idFor(fileSet);
+    const files = Array.from(fileSet.files.entries(), ([path, file]) => ({ path, file }));
+    const totalSize = files.reduce((sum, f) => sum + f.file.size, 0);
+    if (totalSize > MAX_TOTAL_BYTES) return id;
+
+    const previous = await this.request<RecentModel | undefined>('readonly', store => store.get(id));
+    const entry: RecentModel = {
+      ...previous,
+      id,
+      name: fileSet.primary.name,
+      primaryPath: fileSet.primaryPath,
+      files,
+      baseUrl: fileSet.baseUrl,
+      totalSize,
+      openedAt: Date.now(),
+    };
+
+    try {
+      await this.request('readwrite', store => store.put(entry));
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'QuotaExceededError')) throw err;
+      // Browser quota is tighter than our own budget; make room and try once more
+      await this.evict(id, 1);
+      await this.request('readwrite', store => store.put(entry));
+    }
+    await this.evict(id);
+    return id;
+  }
+
+  /**
+   * Patches an existing entry. Missing entries (too large to store, or evicted) are ignored.
+   */
+  static async update(id: string, patch: Partial<Pick<RecentModel, 'thumbnail' | 'stats' | 'score'>>) {
+    // Read and write in one transaction: readwrite transactions on a store run one at a time,
+    // so patches sent together (stats, score, thumbnail) each see the others' writes
+    await this.request('readwrite', (store) => {
+      const req = store.get(id);
+      req.onsuccess = () => {
+        const entry = req.result as RecentModel | undefined;
+        if (entry) store.put({ ...entry, ...patch });
+      };
+      return req;
+    });
+  }
+
+  static async remove(id: string) {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  static toFileSet(entry: RecentModel): ModelFileSet {
+    const files = new Map(entry.files.map(({ path, file }) => [path, file]));
+    return { primary: files.get(entry.primaryPath)!, primaryPath: entry.primaryPath, files, baseUrl: entry.baseUrl };
+  }
+
+  /**
+   * Downscales the current contents of a WebGL canvas into a small JPEG data URL.
+   * Must run in the same task as the render, before the drawing buffer is cleared.
+   */
+  static createThumbnail(source: HTMLCanvasElement): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_WIDTH;
+    canvas.height = THUMBNAIL_HEIGHT;
+    const ctx = canvas.getContext('2d')!;
+
+    // Center-crop to the thumbnail aspect ratio
+    const scale = Math.max(THUMBNAIL_WIDTH / source.width, THUMBNAIL_HEIGHT / source.height);
+    const w = THUMBNAIL_WIDTH / scale;
+    const h = THUMBNAIL_HEIGHT / scale;
+    ctx.fillStyle = '#0a0a12';
+    ctx.fillRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+    ctx.drawImage(source, (source.width - w) / 2, (source.height - h) / 2, w, h, 0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+    return canvas.toDataURL('image/jpeg', 0.8);
+  }
+
+  /**
+   * Drops the least recently opened entries (never `keepId`) until the store is within
+   * MAX_ENTRIES and MAX_TOTAL_BYTES, or until at least `minimum` entries were removed.
+   */
+  private static async evict(keepId: string, minimum = 0) {
+    const entries = await this.list();
+    let count = entries.length;
+    let bytes = entries.reduce((sum, e) => sum + e.totalSize, 0);
+    let removed = 0;
+
+    for (const entry of entries.reverse()) {
+      if (count <= MAX_ENTRIES && bytes <= MAX_TOTAL_BYTES && removed >= minimum) break;
+      if (entry.id === keepId) continue;
+      await this.remove(entry.id);
+      count--;
+      bytes -= entry.totalSize;
+      removed++;
+    }
+  }
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'id' });
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+      // Let a later call retry if the database couldn't be opened (e.g. private browsing)
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  private static async request<T = unknown>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest,
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req.result as T);
+      tx.onerror = () => reject(tx.error ?? req.error);
+      tx.onabort = () => reject(tx.error ?? req.error);
+    });
+  }
+}
@@ -0,0 +1,29 @@
+import { RuleRegistry } from '@/core/analysis/RuleRegistry';
+import type { RuleSettingsMap } from '@/types/model';
+
+const STORAGE_KEY = 'thenext3d:rule-settings';
+
+/**
+ * RuleSettingsStore
+ * Keeps the viewer's rule settings in localStorage between visits.
+ */
+export class RuleSettingsStore {
+  static load(): RuleSettingsMap {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? RuleRegistry.sanitize(JSON.parse(stored)).settings : {};
+    } catch {
+      // Unavailable storage (private mode, SSR) or a corrupt entry both mean defaults
+      return {};
+    }
+  }
+
+  static save(settings: RuleSettingsMap) {
+    try {
+      if (Object.keys(settings).length === 0) localStorage.removeItem(STORAGE_KEY);
+      else localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (err) {
+      console.warn('Could not save rule settings:', err);
+    }
+  }
+}
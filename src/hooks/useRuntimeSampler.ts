@@ -0,0 +1,67 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import * as THREE from 'three';
+import { OptimizationEngine } from '../core/analysis/OptimizationEngine';
+import { PerformanceStats, RuntimeMetrics } from '@/types/model';
+
+interface SampleTotals {
+  frames: number;
+  // Milliseconds covered by the counted frames
+  time: number;
+  drawCalls: number;
+  triangles: number;
+  programs: number;
+  textures: number;
+  // The first update after a change includes shader compilation and uploads
+  warmedUp: boolean;
+}
+
+const emptyTotals = (): SampleTotals => ({
+  frames: 0, time: 0, drawCalls: 0, triangles: 0, programs: 0, textures: 0, warmedUp: false,
+});
+
+/**
+ * Collects renderer stats for the current scene until OptimizationEngine.MIN_RUNTIME_FRAMES
+ * frames are counted, then returns them as one fixed set of metrics. Sampling restarts when
+ * the scene is replaced or modified (refreshKey), so runtime rules always describe what is on screen.
+ */
+export function useRuntimeSampler(scene: THREE.Object3D | null, refreshKey: number = 0) {
+  const [metrics, setMetrics] = useState<RuntimeMetrics | null>(null);
+  const totals = useRef<SampleTotals>(emptyTotals());
+  const done = useRef(false);
+
+  useEffect(() => {
+    totals.current = emptyTotals();
+    done.current = false;
+    setMetrics(null);
+  }, [scene, refreshKey]);
+
+  const addSample = useCallback((stats: PerformanceStats, frames: number) => {
+    if (!scene || done.current || frames === 0 || stats.fps <= 0) return;
+    const t = totals.current;
+    if (!t.warmedUp) {
+      t.warmedUp = true;
+      return;
+    }
+
+    t.frames += frames;
+    t.time += (frames * 1000) / stats.fps;
+    t.drawCalls = Math.max(t.drawCalls, stats.drawCalls);
+    t.triangles = Math.max(t.triangles, stats.triangles);
+    t.programs = Math.max(t.programs, stats.programs);
+    t.textures = Math.max(t.textures, stats.textures);
+
+    if (t.frames >= OptimizationEngine.MIN_RUNTIME_FRAMES) {
+      done.current = true;
+      setMetrics({
+        frames: t.frames,
+        fps: Math.round((t.frames * 1000) / t.time),
+        drawCalls: t.drawCalls,
+        triangles: t.triangles,
+        programs: t.programs,
+        textures: t.textures,
+      });
+    }
+  }, [scene]);
+
+  return { metrics, addSample };
+}
@@ -1,29 +1,52 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import * as THREE from 'three';
 import { SceneAnalyzer } from '../core/analysis/SceneAnalyzer';
 import { OptimizationEngine } from '../core/analysis/OptimizationEngine';
-import { SceneAnalysisReport } from '@/types/model';
+import { BudgetProfiles } from '../core/analysis/BudgetProfiles';
+import { RuleRegistry } from '../core/analysis/RuleRegistry';
+import { BudgetProfile, RuleSettingsMap, RuntimeMetrics, SceneAnalysisReport } from '@/types/model';
 
-export function useSceneIntelligence(scene: THREE.Object3D | null, refreshKey: number = 0) {
+// Stable default, so the effect below doesn't rerun on every render
+const DEFAULT_RULE_SETTINGS: RuleSettingsMap = {};
+
+export function useSceneIntelligence(
+  scene: THREE.Object3D | null,
+  refreshKey: number = 0,
+  precomputed: SceneAnalysisReport | null = null,
+  ruleSettings: RuleSettingsMap = DEFAULT_RULE_SETTINGS,
+  budgetProfile: BudgetProfile = BudgetProfiles.default,
+  runtime: RuntimeMetrics | null = null,
+) {
   const [report, setReport] = useState<SceneAnalysisReport | null>(null);
+  const analyzedScene = useRef<THREE.Object3D | null>(null);
 
   useEffect(() => {
     if (!scene) {
+      analyzedScene.current = null;
       setReport(null);
       return;
     }
 
+    // A report produced by the load worker stands in for the first analysis of a new scene,
+    // unless rules were registered on this thread, which the worker doesn't know about
+    if (precomputed && analyzedScene.current !== scene && !RuleRegistry.hasRegisteredRules) {
+      analyzedScene.current = scene;
+      setReport(precomputed);
+      return;
+    }
+    analyzedScene.current = scene;
+
     const timer = setTimeout(() => {
       console.time('SceneAnalysis');
       const rawData = SceneAnalyzer.analyze(scene);
-      const assessment = OptimizationEngine.evaluate(rawData);
+      const assessment = OptimizationEngine.evaluate(rawData, ruleSettings, budgetProfile, runtime);
       console.timeEnd('SceneAnalysis');
       
       setReport(assessment);
     }, 500);
 
     return () => clearTimeout(timer);
-  }, [scene, refreshKey]);
+  }, [scene, refreshKey, ruleSettings, budgetProfile, runtime]);
 
   return report;
 }
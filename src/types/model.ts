@@ -28,6 +28,8 @@ export interface MaterialInfo {
   emissiveIntensity?: number;
   metalness?: number;
   roughness?: number;
+  specular?: string;
+  shininess?: number;
   wireframe?: boolean;
   map?: TextureInfo | null;
   normalMap?: TextureInfo | null;
@@ -37,6 +39,8 @@ export interface MaterialInfo {
   aoMap?: TextureInfo | null;
   alphaMap?: TextureInfo | null;
   envMap?: TextureInfo | null;
+  specularMap?: TextureInfo | null;
+  bumpMap?: TextureInfo | null;
 }
 
 export interface GeometryInfo {
@@ -84,6 +88,109 @@ export interface ModelStats {
   fileSize?: string;
   fileName?: string;
   fileType?: string;
+  // FBX-specific: centimetres per scene unit (FBX UnitScaleFactor)
+  unitScale?: number;
+  // FBX-specific: texture references packed into the file vs. pointing to sidecar files
+  embeddedTextures?: number;
+  externalTextures?: number;
+  // glTF-specific: compression extensions declared in extensionsUsed (empty = uncompressed)
+  compression?: string[];
+}
+
+export interface ModelFileSet {
+  primary: File;
+  primaryPath: string;
+  // Every dropped file (primary included) keyed by its path relative to the drop root
+  files: Map<string, File>;
+  // Models opened from a URL: references that aren't in `files` are fetched relative to this
+  baseUrl?: string;
+}
+
+export interface RecentModel {
+  // Derived from the primary file's path, size and mtime so reopening the same file updates its entry
+  id: string;
+  name: string;
+  primaryPath: string;
+  files: { path: string; file: File }[];
+  baseUrl?: string;
+  totalSize: number;
+  openedAt: number;
+  // JPEG data URL captured from the viewer canvas
+  thumbnail?: string;
+  stats?: ModelStats;
+  score?: number;
+}
+
+export type LoadStage = 'parsing' | 'extracting' | 'analyzing';
+
+export type LoadErrorCode =
+  | 'unsupported_format'
+  | 'missing_resource'
+  | 'decoder_failure'
+  | 'out_of_memory'
+  | 'corrupt_header'
+  | 'not_found'
+  | 'network_error'
+  | 'unknown';
+
+export interface ExportOptions {
+  // Without extension; derived from the loaded file
+  fileName: string;
+  // GLB, .gltf JSON with its buffer written to a separate .bin, USDZ for Apple Quick Look,
+  // or OBJ / STL with world transforms baked into the vertices
+  format: 'glb' | 'gltf' | 'usdz' | 'obj' | 'stl';
+  // glTF only: keep images as data URIs instead of separate files
+  embedImages: boolean;
+  animations: boolean;
+  onlyVisible: boolean;
+  // Drop vertices/indices outside each geometry's drawRange
+  truncateDrawRange: boolean;
+  // Longest texture edge in pixels; Infinity keeps the original size
+  maxTextureSize: number;
+  // Geometry encoding; compressed exports are always written as GLB
+  compression: 'none' | 'draco' | 'meshopt';
+  quantization: QuantizationBits;
+  // OBJ only: also write an .mtl with the materials and their textures
+  objMaterials: boolean;
+  // STL only: binary instead of ASCII
+  stlBinary: boolean;
+  // Set when exporting a single node from the scene explorer instead of the whole scene
+  subtree?: SubtreeExportOptions;
+}
+
+// Something the target format will drop or approximate, found before writing the file
+export interface ExportWarning {
+  code:
+    | 'unsupported_material'
+    | 'multi_material'
+    | 'texture_transform'
+    | 'unsupported_map'
+    | 'unsupported_feature'
+    | 'double_sided'
+    | 'morph_targets'
+    | 'skinning'
+    | 'animations'
+    | 'negative_scale';
+  message: string;
+  // Names of the affected meshes, materials or clips
+  subjects: string[];
+}
+
+export interface SubtreeExportOptions {
+  uuid: string;
+  name: string;
+  // Carry the node's transform relative to the model root instead of its local one
+  bakeWorldTransform: boolean;
+  // Off exports the node on its own
+  includeChildren: boolean;
+}
+
+// Bits per component for quantized vertex attributes
+export interface QuantizationBits {
+  position: number;
+  normal: number;
+  texcoord: number;
+  color: number;
 }
 
 export type DebugRenderMode = 'none' | 'wireframe' | 'normals' | 'uv' | 'depth' | 'flat' | 'albedo' | 'no_lighting' | 'heatmap' | 'overdraw' | 'gpu_cost';
@@ -117,9 +224,16 @@ export interface PerformanceStats {
   };
 }
 
-export interface PerformanceWarning {
-  level: 'moderate' | 'heavy';
-  message: string;
+// Renderer measurements over the frames sampled since the scene last changed
+export interface RuntimeMetrics {
+  frames: number;
+  // Average over the sampled frames
+  fps: number;
+  // Highest values seen while sampling
+  drawCalls: number;
+  triangles: number;
+  programs: number;
+  textures: number;
 }
 
 export type LightingPresetId = 'studio' | 'sunset' | 'dawn' | 'night' | 'warehouse';
@@ -148,7 +262,23 @@ export type OptimizationState = 'idle' | 'preview' | 'applied' | 'dismissed';
 
 export interface StructuralIssue {
   id: string;
-  type: 'duplicate_geometry' | 'material_fragmentation' | 'texture_overkill' | 'mesh_density' | 'lod_needed' | 'static_merge';
+  // Built-in rules use their own type; rules registered by a project report 'custom'
+  type:
+    | 'duplicate_geometry'
+    | 'material_fragmentation'
+    | 'texture_overkill'
+    | 'mesh_density'
+    | 'lod_needed'
+    | 'static_merge'
+    | 'budget_exceeded'
+    | 'runtime_performance'
+    | 'custom';
+  // Id of the rule that raised the issue
+  ruleId?: string;
+  // Whether the issue comes from the scene's structure or from measuring it render
+  source?: IssueSource;
+  // Set on budget_exceeded issues: the budget and how far over it the scene is
+  budget?: BudgetCheck;
   severity: 'low' | 'medium' | 'high';
   title: string;
   description: string;
@@ -160,6 +290,8 @@ export interface StructuralIssue {
     action: 'convert_to_instanced' | 'merge_static' | 'generate_lod';
     geometryUuid?: string;
     materialUuid?: string;
+    // Rigid transform (column-major) from geometryUuid to each mesh's own copy, where it differs
+    geometryOffsets?: Record<string, number[]>;
     meshes?: { uuid: string; triangleCount: number }[];
     estimatedDrawCallReduction?: number;
     estimatedTriangleReduction?: string;
@@ -171,12 +303,111 @@ export interface StructuralIssue {
   };
 }
 
+export type IssueSource = 'static' | 'runtime';
+
+export type RuleCategory = 'draw_calls' | 'materials' | 'textures' | 'geometry' | 'rendering';
+
+export type RuleOptionSpec = {
+  label: string;
+  min?: number;
+  step?: number;
+} & (
+  | { default: number; budget?: never }
+  // Follows this budget of the active profile, unless overridden
+  | { budget: BudgetKey; default?: never }
+);
+
+// Per-project overrides for one rule; anything left out falls back to the rule's defaults
+export interface RuleSettings {
+  enabled?: boolean;
+  severity?: StructuralIssue['severity'];
+  options?: Record<string, number>;
+}
+
+// Keyed by rule id
+export type RuleSettingsMap = Record<string, RuleSettings>;
+
+// Settings file a project can commit and share between the viewer and the CLI
+export interface ProjectConfig {
+  rules?: RuleSettingsMap;
+}
+
+// Limits a scene is scored against, per target platform
+export interface BudgetLimits {
+  triangles: number;
+  drawCalls: number;
+  // Longest side of any texture, in pixels
+  textureSize: number;
+  // Textures and geometry together, in MB
+  vramMB: number;
+  // Per mesh; static meshes above this should get LOD levels
+  lodTriangles: number;
+  // Frame rate the platform has to hold
+  targetFps: number;
+  // Unique materials before material fragmentation is reported
+  materials: number;
+  // Per mesh; vertices per unit of bounding volume before it counts as over-tessellated
+  vertexDensity: number;
+  // Textures this large or larger are wasted on very small meshes
+  smallMeshTextureSize: number;
+}
+
+export type BudgetKey = keyof BudgetLimits;
+
+export interface BudgetProfile {
+  id: string;
+  name: string;
+  description: string;
+  // Built-in profiles ship with the viewer; the rest are saved locally and editable
+  builtin: boolean;
+  limits: BudgetLimits;
+}
+
+// What a rule measured, against the threshold it flags at
+export interface RuleMeasurement {
+  value: number;
+  threshold: number;
+  unit: string;
+}
+
+// One deduction from the score and the measurement behind it
+export interface ScoreLineItem {
+  ruleId: string;
+  source: IssueSource;
+  issueId: string;
+  title: string;
+  // Points taken off the score
+  weight: number;
+  measured: number;
+  threshold: number;
+  unit: string;
+}
+
+// A scene-wide budget measured against the active profile
+export interface BudgetCheck {
+  key: BudgetKey;
+  label: string;
+  unit: string;
+  limit: number;
+  actual: number;
+  exceeded: boolean;
+  // How far over the limit, as a fraction of it (0.5 = 50% over); 0 when within budget
+  overBy: number;
+}
+
 export interface SceneAnalysisReport {
   score: number;
   status: 'optimized' | 'improvable' | 'heavy';
   issues: StructuralIssue[];
   timestamp: string;
   sceneVersion: number;
+  // Profile the scene was scored against, and each of its budgets
+  profile: { id: string; name: string };
+  budgets: BudgetCheck[];
+  // Every deduction from 100, in the order the rules ran
+  breakdown: ScoreLineItem[];
+  // Renderer measurements the runtime rules ran on; null until enough frames were sampled
+  runtime: RuntimeMetrics | null;
   stats: {
     instancingPotential: number;
     mergePotential: number;
@@ -283,3 +514,83 @@ export interface GPUStressStats {
   doubleSidedMaterials: number;
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
 }
+
+// ──────────────────────────────────────────────
+// Scene snapshots (before/after optimization diff)
+// ──────────────────────────────────────────────
+
+// Render-cost totals for the scene at one point in time; LODs count their most detailed level
+export interface SceneSnapshot {
+  label: string;
+  timestamp: string;
+  nodes: Record<string, { name: string; type: string; path: string }>;
+  materials: Record<string, { name: string; drawCalls: number }>;
+  drawCalls: number;
+  triangles: number;
+  // Uncompressed RGBA bytes of the unique textures in use
+  textureMemory: number;
+  // Unique geometry and instance buffers plus textures at a typical compressed size
+  estimatedFileSize: number;
+}
+
+export interface SnapshotDelta {
+  before: number;
+  after: number;
+}
+
+export interface SceneDiff {
+  from: { label: string; timestamp: string };
+  to: { label: string; timestamp: string };
+  addedNodes: { uuid: string; name: string; type: string; path: string }[];
+  removedNodes: { uuid: string; name: string; type: string; path: string }[];
+  // Materials whose draw call count changed, or that appeared or disappeared
+  materials: ({ uuid: string; name: string } & SnapshotDelta)[];
+  drawCalls: SnapshotDelta;
+  triangles: SnapshotDelta;
+  textureMemory: SnapshotDelta;
+  estimatedFileSize: SnapshotDelta;
+}
+
+// ──────────────────────────────────────────────
+// Analysis report (JSON export, schema in public/schemas/analysis-report.v1.json)
+// ──────────────────────────────────────────────
+
+// Where an issue's affectedUuids point in the scene; name and path are null once the node
+// is gone (e.g. merged away by an applied optimization)
+export interface ReportNodeRef {
+  uuid: string;
+  name: string | null;
+  // Slash-separated names from the model root; unnamed nodes appear as Type[siblingIndex]
+  path: string | null;
+}
+
+export interface ReportIssue extends StructuralIssue {
+  affectedNodes: ReportNodeRef[];
+}
+
+export interface ReportEvent extends Omit<OptimizationEvent, 'timestamp'> {
+  timestamp: string;
+}
+
+export interface AnalysisReportDocument {
+  schema: 'thenext3d/analysis-report';
+  // Bumped on any breaking change to the document shape
+  schemaVersion: number;
+  generator: { name: string; version: string };
+  generatedAt: string;
+  source: { fileName: string | null; fileType: string | null; fileSize: string | null };
+  stats: ModelStats | null;
+  // Renderer snapshot at the time of export; null outside the viewer
+  performance: PerformanceStats | null;
+  analysis: (Omit<SceneAnalysisReport, 'issues'> & { issues: ReportIssue[] }) | null;
+  history: ReportEvent[];
+  // Scene as loaded vs. now; null until an optimization has been applied
+  diff: SceneDiff | null;
+}
+
+// Live-renderer data for the HTML report, captured with the original materials in place
+export interface ReportSnapshot {
+  screenshots: { mode: DebugRenderMode; label: string; dataUrl: string }[];
+  textureDistribution: TextureUsageStats['resolutionMap'];
+  gpu: GPUStressStats;
+}
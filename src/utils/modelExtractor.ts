@@ -100,11 +100,27 @@ function extractMaterialInfo(mat: THREE.Material): MaterialInfo {
     info.aoMap = extractTextureInfo(mat.aoMap);
     info.alphaMap = extractTextureInfo(mat.alphaMap);
     info.envMap = extractTextureInfo(mat.envMap);
-  } else if (mat instanceof THREE.MeshPhongMaterial || mat instanceof THREE.MeshLambertMaterial) {
-    info.color = colorToHex((mat as any).color);
-    info.emissive = colorToHex((mat as any).emissive);
-    info.wireframe = (mat as any).wireframe;
-    info.map = extractTextureInfo((mat as any).map);
+  } else if (mat instanceof THREE.MeshPhongMaterial) {
+    // OBJ + MTL, Collada and FBX materials arrive as Phong
+    info.color = colorToHex(mat.color);
+    info.emissive = colorToHex(mat.emissive);
+    info.emissiveIntensity = mat.emissiveIntensity;
+    info.specular = colorToHex(mat.specular);
+    info.shininess = mat.shininess;
+    info.wireframe = mat.wireframe;
+    info.map = extractTextureInfo(mat.map);
+    info.normalMap = extractTextureInfo(mat.normalMap);
+    info.bumpMap = extractTextureInfo(mat.bumpMap);
+    info.specularMap = extractTextureInfo(mat.specularMap);
+    info.emissiveMap = extractTextureInfo(mat.emissiveMap);
+    info.aoMap = extractTextureInfo(mat.aoMap);
+    info.alphaMap = extractTextureInfo(mat.alphaMap);
+    info.envMap = extractTextureInfo(mat.envMap);
+  } else if (mat instanceof THREE.MeshLambertMaterial) {
+    info.color = colorToHex(mat.color);
+    info.emissive = colorToHex(mat.emissive);
+    info.wireframe = mat.wireframe;
+    info.map = extractTextureInfo(mat.map);
   }
 
   return info;
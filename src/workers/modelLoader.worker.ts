@@ -0,0 +1,84 @@
+import type * as THREE from 'three';
+import { extractMeshes, computeModelStats } from '@/utils/modelExtractor';
+import { SceneAnalyzer } from '@/core/analysis/SceneAnalyzer';
+import { OptimizationEngine } from '@/core/analysis/OptimizationEngine';
+import { FileSetResolver } from '@/core/loading/FileSetResolver';
+import { ModelLoader } from '@/core/loading/ModelLoader';
+import { ModelLoadError } from '@/core/loading/ModelLoadError';
+import { SceneTransfer, type TransferredScene } from '@/core/loading/SceneTransfer';
+import type {
+  BudgetProfile,
+  LoadErrorCode,
+  LoadStage,
+  MeshInfo,
+  ModelFileSet,
+  ModelStats,
+  RuleSettingsMap,
+  SceneAnalysisReport,
+} from '@/types/model';
+
+export type ModelLoaderRequest = { fileSet: ModelFileSet; ruleSettings: RuleSettingsMap; budgetProfile: BudgetProfile };
+
+export type ModelLoaderMessage =
+  | { type: 'progress'; stage: LoadStage; percent: number }
+  | {
+    type: 'result';
+    scene: TransferredScene;
+    meshes: MeshInfo[];
+    stats: ModelStats;
+    report: SceneAnalysisReport;
+    missing: string[];
+  }
+  // The file itself is at fault; the main thread would fail the same way
+  | { type: 'error'; code: LoadErrorCode; message: string; missing: string[] }
+  // The model could not be handled here (e.g. KTX2 textures need a WebGL context); load it on the main thread
+  | { type: 'fallback'; reason: string };
+
+const ctx = self as unknown as {
+  onmessage: ((e: MessageEvent<ModelLoaderRequest>) => void) | null;
+  postMessage(message: ModelLoaderMessage, transfer?: Transferable[]): void;
+};
+
+const post = (stage: LoadStage, percent: number) => ctx.postMessage({ type: 'progress', stage, percent });
+
+ctx.onmessage = async ({ data: { fileSet, ruleSettings, budgetProfile } }) => {
+  const resolver = new FileSetResolver(fileSet);
+  try {
+    post('parsing', 0);
+    const { root, animations, extraStats } = await ModelLoader.load(fileSet, resolver, {
+      ktx2: false,
+      onProgress: (percent) => post('parsing', percent),
+    });
+
+    post('extracting', 0);
+    root.traverse((node) => {
+      if ((node as THREE.Mesh).isMesh) {
+        node.castShadow = true;
+        node.receiveShadow = true;
+      }
+    });
+    const meshes = extractMeshes(root);
+    const stats = {
+      ...computeModelStats(root, meshes, animations, fileSet.primary.name, fileSet.primary.size),
+      ...extraStats,
+    };
+
+    post('analyzing', 0);
+    const report = OptimizationEngine.evaluate(SceneAnalyzer.analyze(root), ruleSettings, budgetProfile);
+
+    const { scene, transfer } = SceneTransfer.serialize(root, animations);
+    ctx.postMessage(
+      { type: 'result', scene, meshes, stats, report, missing: Array.from(resolver.missing) },
+      transfer,
+    );
+  } catch (err) {
+    const error = ModelLoadError.from(err, resolver.missing);
+    if (error.code === 'decoder_failure' || error.code === 'unknown') {
+      ctx.postMessage({ type: 'fallback', reason: error.message });
+    } else {
+      ctx.postMessage({ type: 'error', code: error.code, message: error.message, missing: Array.from(resolver.missing) });
+    }
+  } finally {
+    resolver.dispose();
+  }
+};